@@ -5,6 +5,7 @@ import * as targets from "aws-cdk-lib/aws-events-targets";
 import * as stepfunctions from "aws-cdk-lib/aws-stepfunctions";
 import * as sfnTasks from "aws-cdk-lib/aws-stepfunctions-tasks";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as path from "path";
 import { createTracedLambda } from "./utils/lambda-utils";
 import { invokeLambdaTask } from "../src/common/aws/services/stepfunction-service";
@@ -38,6 +39,20 @@ export class TvnzIntegrationEventBusStack extends cdk.Stack {
       ),
     });
 
+    // Idempotency records of the controller, expired by TTL
+    const idempotencyTable = new dynamodb.Table(this, "IdempotencyTable", {
+      tableName: "tvnz-test-idempotency",
+      partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    idempotencyTable.grantReadWriteData(sfControllerLambda);
+    sfControllerLambda.addEnvironment(
+      "IDEMPOTENCY_TABLE_NAME",
+      idempotencyTable.tableName,
+    );
+
     // Business Lambdas
     const businessLambda1 = createTracedLambda(this, {
       id: "tvnz-test-business-lambda-1",
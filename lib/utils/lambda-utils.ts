@@ -4,6 +4,7 @@ import * as logs from "aws-cdk-lib/aws-logs";
 import * as iam from "aws-cdk-lib/aws-iam";
 import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
 import { Construct } from "constructs";
+import { EnvironmentSchema } from "../../src/common/aws/env/Environment";
 
 export interface TracedLambdaOptions {
   /**
@@ -71,6 +72,12 @@ function createLambdaFunction(
     role,
   } = options;
 
+  // environment of the deployment (`cdk deploy -c environment=prod`), read at runtime
+  // with RuntimeEnvironment.get()
+  const environment = EnvironmentSchema.safeParse(
+    scope.node.tryGetContext("environment")
+  ).data;
+
   return new NodejsFunction(scope, id, {
     functionName,
     runtime: lambda.Runtime.NODEJS_LATEST,
@@ -83,6 +90,7 @@ function createLambdaFunction(
     role,
     environment: {
       NODE_OPTIONS: "--enable-source-maps",
+      ...(environment ? { ENVIRONMENT: environment } : {}),
       ...additionalEnvironment,
     },
     bundling: {
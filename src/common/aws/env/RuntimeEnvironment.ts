@@ -0,0 +1,12 @@
+import { Environment, EnvironmentSchema } from "./Environment";
+
+/**
+ * Environment a Lambda is deployed to, from the `ENVIRONMENT` variable set by
+ * createLambdaFunction. Kept apart from ProcessEnvs, which loads the CDK context helpers,
+ * so runtime code only depends on zod.
+ */
+export const RuntimeEnvironment = {
+  get: (): Environment | undefined => {
+    return EnvironmentSchema.safeParse(process.env.ENVIRONMENT).data;
+  },
+};
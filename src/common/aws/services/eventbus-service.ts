@@ -4,23 +4,41 @@ import {
   PutEventsRequest,
   PutEventsResponse,
 } from "@aws-sdk/client-eventbridge";
-import { TracedEvent, TracingContext } from "../../../util/tracing-utils";
+import { TracedEvent } from "../../../util/tracing-utils";
+import {
+  PropagatorConfig,
+  TraceCarriers,
+  TracePropagators,
+} from "../../../util/trace-propagators";
 import { logger } from "../../../util/logger-demo";
 import { XrayService } from "./xray-service";
 
 const ebClient = new EventBridgeClient({});
+const log = logger.child({ module: "eventbus" });
 
 class EventbusClient {
   private eventbridge: EventBridgeClient;
   private readonly eventBusName: string;
+  private readonly propagators?: PropagatorConfig;
 
-  private constructor(eventBusName: string) {
+  private constructor(
+    eventBusName: string,
+    options?: { propagators?: PropagatorConfig }
+  ) {
     this.eventbridge = XrayService.wrapClientWithXRay(ebClient);
     this.eventBusName = eventBusName;
+    this.propagators = options?.propagators;
   }
 
-  static forBus(eventBusName: string): EventbusClient {
-    return new EventbusClient(eventBusName);
+  /**
+   * `propagators` controls which trace fields are injected into the event detail
+   * (default: `traceId` and `traceparent`/`tracestate`)
+   */
+  static forBus(
+    eventBusName: string,
+    options?: { propagators?: PropagatorConfig }
+  ): EventbusClient {
+    return new EventbusClient(eventBusName, options);
   }
 
   /**
@@ -53,13 +71,14 @@ class EventbusClient {
     detailType: string;
     detail: TracedEvent | string;
   }): Promise<PutEventsResponse> {
-    const currentTraceId = TracingContext.getTraceId();
-
-    // normalize detail into an object, inject top-level traceId if present
-    const detailObj = this.normalizeEventDetail(detail);
-    const detailPayload = JSON.stringify(
-      currentTraceId ? { ...detailObj, traceId: currentTraceId } : detailObj
+    // normalize detail into an object, inject trace fields (e.g. top-level traceId) if present
+    const detailObj = { ...this.normalizeEventDetail(detail) };
+    TracePropagators.inject(
+      TraceCarriers.fromTracedEvent(detailObj),
+      undefined,
+      this.propagators
     );
+    const detailPayload = JSON.stringify(detailObj);
 
     const eventParams: PutEventsRequest = {
       Entries: [
@@ -75,12 +94,12 @@ class EventbusClient {
     try {
       const command = new PutEventsCommand(eventParams);
       const result = await this.eventbridge.send(command);
-      logger.info({
+      log.info({
         message: `Successfully sent event to EventBridge: ${result.Entries?.[0]?.EventId}`,
       });
       return result;
     } catch (error) {
-      logger.error({
+      log.error({
         message: "Error sending event to EventBridge:",
         data: error as Error,
       });
@@ -1,10 +1,17 @@
 import type { Context, Handler } from "aws-lambda";
 import { logger } from "../util/logger-demo";
-import { TraceId, TracingContext } from "../util/tracing-utils";
+import { TraceId, TracedEvent, TracingContext } from "../util/tracing-utils";
+import { TraceCarriers, TracePropagators } from "../util/trace-propagators";
 import { tracedEventHandler } from "../util/traced-event-handler";
 import { SFNClient, StartExecutionCommand } from "@aws-sdk/client-sfn";
 import AWSXRay from "aws-xray-sdk-core";
 import { XrayService } from "../common/aws/services/xray-service";
+import {
+  DynamoDbIdempotencyStore,
+  IdempotencyKeys,
+  InMemoryIdempotencyStore,
+} from "../util/idempotency";
+import { UpstreamError } from "../util/http-errors";
 
 // EventBridge event structure from Step Functions
 interface EventBridgeEvent {
@@ -35,8 +42,17 @@ interface StepFunctionControllerResult {
   businessExecution?: any;
 }
 
+// input of the business state machine, with the trace fields next to the event
+type BusinessExecutionInput = TracedEvent & { receivedEvent: EventBridgeEvent };
+
 const sfnClient = new SFNClient({});
 
+// EventBridge delivers at least once: start the business state machine once per event id
+const idempotencyTableName = process.env.IDEMPOTENCY_TABLE_NAME;
+const idempotencyStore = idempotencyTableName
+  ? new DynamoDbIdempotencyStore(idempotencyTableName)
+  : new InMemoryIdempotencyStore();
+
 // const wrappedClient = wrapClientWithXRay(sfnClient) as SFNClient;
 
 export const handler: Handler<EventBridgeEvent, StepFunctionControllerResult> =
@@ -85,14 +101,14 @@ export const handler: Handler<EventBridgeEvent, StepFunctionControllerResult> =
           // for trace propagation. The aws-xray-sdk-core integration is optional
           // here; we already import AWSXRay above.
 
-          const startInput = JSON.stringify({
-            receivedEvent: event,
-            traceId: receivedTraceId,
-          });
+          // trace fields (traceId, traceparent, baggage, ...) of the current
+          // context, validated on extraction, not the raw id of the event
+          const startInput: BusinessExecutionInput = { receivedEvent: event };
+          TracePropagators.inject(TraceCarriers.fromTracedEvent(startInput));
 
           const startCmd = new StartExecutionCommand({
             stateMachineArn: businessSfnArn,
-            input: startInput,
+            input: JSON.stringify(startInput),
           });
 
           // const startRes = await sfnClient.send(startCmd);
@@ -113,6 +129,13 @@ export const handler: Handler<EventBridgeEvent, StepFunctionControllerResult> =
             message: "Failed to start business state machine",
             data: { error: err },
           });
+          // fail the event, so the idempotency record is released and the event
+          // retried, instead of storing a result without execution for the TTL
+          throw new UpstreamError(
+            "Step Functions",
+            "Could not start the business state machine",
+            { cause: err }
+          );
         }
       }
 
@@ -122,5 +145,11 @@ export const handler: Handler<EventBridgeEvent, StepFunctionControllerResult> =
       });
 
       return result;
+    },
+    {
+      idempotency: {
+        store: idempotencyStore,
+        key: IdempotencyKeys.eventId,
+      },
     }
   );
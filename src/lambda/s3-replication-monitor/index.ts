@@ -1,5 +1,7 @@
-import { Handler } from "aws-lambda";
 import { logger } from "../../util/logger-demo";
+import { tracedS3EventHandler } from "../../util/traced-s3-event-handler";
+
+const log = logger.child({ module: "s3-replication" });
 
 type S3ReplicationRecord = {
   eventVersion: string;
@@ -50,36 +52,25 @@ type S3ReplicationRecord = {
   };
 };
 
-type S3ReplicationEvent = {
-  Records: S3ReplicationRecord[];
-};
-
-export const handler: Handler<S3ReplicationEvent, void> = async (event) => {
-  try {
-    logger.info({
-      message: "Received S3 replication events",
-      data: {
-        recordsCount: event.Records?.length || 0,
-        eventType: "s3-replication-event",
-      },
-    });
-
-    for (const record of event.Records) {
+export const handler = tracedS3EventHandler<S3ReplicationRecord>(
+  async (record) => {
+    try {
       await processReplicationRecord(record);
+    } catch (error) {
+      log.error({
+        message: "Error processing S3 replication record",
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+          bucket: record.s3.bucket.name,
+          key: record.s3.object.key,
+          eventName: record.eventName,
+          eventType: "s3-replication-event-error",
+        },
+      });
+      throw error;
     }
-  } catch (error) {
-    logger.error({
-      message: "Error processing S3 replication event",
-      data: {
-        error: error instanceof Error ? error.message : String(error),
-        recordsCount: event.Records?.length || 0,
-        eventType: "s3-replication-event-error",
-        fullEvent: event,
-      },
-    });
-    throw error;
-  }
-};
+  },
+);
 
 const processReplicationRecord = async (
   record: S3ReplicationRecord,
@@ -89,31 +80,31 @@ const processReplicationRecord = async (
   // Log based on event name with appropriate level
   switch (eventName) {
     case "Replication:OperationFailedReplication":
-      logger.error({
+      log.error({
         message: "S3 replication operation failed",
         data: record,
       });
       break;
     case "Replication:OperationMissedThreshold":
-      logger.warn({
+      log.warn({
         message: "S3 replication missed threshold",
         data: record,
       });
       break;
     case "Replication:OperationNotTracked":
-      logger.warn({
+      log.warn({
         message: "S3 replication not tracked",
         data: record,
       });
       break;
     case "Replication:OperationReplicatedAfterThreshold":
-      logger.info({
+      log.info({
         message: "S3 replication completed after threshold",
         data: record,
       });
       break;
     default:
-      logger.info({
+      log.info({
         message: "S3 replication event received",
         data: record,
       });
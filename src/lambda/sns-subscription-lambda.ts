@@ -1,11 +1,16 @@
-import type { SNSEvent, Handler } from "aws-lambda";
+import type { SNSEventRecord } from "aws-lambda";
 import AWSXRay from "aws-xray-sdk-core";
 import { logger } from "../util/logger-demo";
+import { tracedSnsHandler } from "../util/traced-sns-handler";
+import { TracingContext } from "../util/tracing-utils";
 
-export const handler: Handler<SNSEvent, void> = async (event) => {
+export const handler = tracedSnsHandler(async (record: SNSEventRecord) => {
   logger.info({
     message: "SNS subscription lambda invoked",
-    data: { records: event.Records.length },
+    data: {
+      messageId: record.Sns.MessageId,
+      traceId: TracingContext.getTraceId(),
+    },
   });
 
   // Log X-Ray environment and segment info
@@ -25,18 +30,12 @@ export const handler: Handler<SNSEvent, void> = async (event) => {
     logger.warn({ message: "Unable to read X-Ray segment", data: String(err) });
   }
 
-  for (const record of event.Records) {
-    try {
-      logger.info({
-        message: "SNS record detail",
-        data: {
-          messageId: record.Sns.MessageId,
-          message: record.Sns.Message,
-          attributes: record.Sns.MessageAttributes,
-        },
-      });
-    } catch (error) {
-      logger.error({ message: "Error processing SNS record", data: error });
-    }
-  }
-};
+  logger.info({
+    message: "SNS record detail",
+    data: {
+      messageId: record.Sns.MessageId,
+      message: record.Sns.Message,
+      attributes: record.Sns.MessageAttributes,
+    },
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * AWS SDK v3 `$metadata` of a failed call
+ */
+export type AwsErrorMetadata = {
+  httpStatusCode?: number;
+  requestId?: string;
+  extendedRequestId?: string;
+  cfId?: string;
+  attempts?: number;
+  totalRetryDelay?: number;
+};
+
+/**
+ * Error as written to the logs. Other own properties with primitive values (`code`,
+ * `statusCode`, ...) are kept too.
+ */
+export type SerializedError = {
+  type: string;
+  message: string;
+  /** Source-mapped, at most `maxStackFrames` frames */
+  stack?: string;
+  /** AWS SDK v3 errors */
+  $metadata?: AwsErrorMetadata;
+  $fault?: "client" | "server";
+  /** Serialized `cause`, non-Error causes are kept as is */
+  cause?: unknown;
+  /** Errors of an AggregateError */
+  errors?: unknown[];
+  [key: string]: unknown;
+};
+
+type ErrorSerializerOptions = {
+  /** Stack frames kept per error (default: 10) */
+  maxStackFrames: number;
+  /** Causes followed from an error (default: 5) */
+  maxCauseDepth: number;
+  /** Errors kept from an AggregateError (default: 10) */
+  maxErrors: number;
+};
+
+const METADATA_KEYS: (keyof AwsErrorMetadata)[] = [
+  "httpStatusCode",
+  "requestId",
+  "extendedRequestId",
+  "cfId",
+  "attempts",
+  "totalRetryDelay",
+];
+
+// written by the serializer, own properties with these names are not copied
+const RESERVED_KEYS = new Set([
+  "name",
+  "type",
+  "message",
+  "stack",
+  "cause",
+  "errors",
+]);
+
+// nesting walked to find errors, deeper values are left to the redactor markers
+const MAX_DEPTH = 10;
+
+const isPlainObject = (value: object): boolean => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const isPrimitive = (value: unknown): value is string | number | boolean =>
+  typeof value === "string" ||
+  typeof value === "number" ||
+  typeof value === "boolean";
+
+/**
+ * Serialization of errors for the logs: the cause chain and the errors of an
+ * AggregateError are followed, AWS SDK v3 `$metadata`/`$fault` are kept and stacks are
+ * bounded. Errors nested in logged data are serialized too (JSON would turn them into `{}`).
+ *
+ * Configured with `ErrorSerializer.configure(...)` or from env:
+ * - `LOG_ERROR_STACK_FRAMES`: stack frames kept per error (default 10)
+ */
+export class ErrorSerializer {
+  private static readonly STACK_FRAMES_ENV_VAR = "LOG_ERROR_STACK_FRAMES";
+  private static readonly DEFAULT_OPTIONS: ErrorSerializerOptions = {
+    maxStackFrames: 10,
+    maxCauseDepth: 5,
+    maxErrors: 10,
+  };
+
+  private static options: ErrorSerializerOptions | undefined;
+
+  static configure(options: Partial<ErrorSerializerOptions>): void {
+    this.options = { ...this.getOptions(), ...options };
+  }
+
+  /**
+   * Source-map the stacks of the modules loaded from now on, for local runs and scripts.
+   * Lambdas already run with `--enable-source-maps` (see createLambdaFunction in
+   * lib/utils/lambda-utils.ts).
+   */
+  static enableSourceMaps(): void {
+    if (!process.sourceMapsEnabled) {
+      process.setSourceMapsEnabled?.(true);
+    }
+  }
+
+  static serialize(error: Error): SerializedError {
+    return this.serializeError(error, 0, new Set());
+  }
+
+  /**
+   * Copy of `value` with the errors found in plain objects and arrays serialized
+   */
+  static serializeNested(value: unknown): unknown {
+    return this.serializeValue(value, 0, new Set());
+  }
+
+  private static serializeValue(
+    value: unknown,
+    depth: number,
+    ancestors: Set<object>,
+  ): unknown {
+    if (value instanceof Error) {
+      return this.serializeError(value, 0, new Set());
+    }
+    if (
+      !value ||
+      typeof value !== "object" ||
+      depth >= MAX_DEPTH ||
+      ancestors.has(value) ||
+      !(Array.isArray(value) || isPlainObject(value))
+    ) {
+      return value;
+    }
+
+    ancestors.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value.map((item) =>
+          this.serializeValue(item, depth + 1, ancestors),
+        );
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [
+          key,
+          this.serializeValue(child, depth + 1, ancestors),
+        ]),
+      );
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  private static serializeError(
+    error: Error,
+    causeDepth: number,
+    seen: Set<Error>,
+  ): SerializedError {
+    const { maxCauseDepth, maxErrors } = this.getOptions();
+    const serialized: SerializedError = {
+      type: error.name,
+      message: error.message,
+    };
+    if (error.stack) {
+      serialized.stack = this.boundStack(error.stack);
+    }
+
+    for (const [key, value] of Object.entries(error)) {
+      if (
+        !key.startsWith("$") &&
+        !RESERVED_KEYS.has(key) &&
+        isPrimitive(value)
+      ) {
+        serialized[key] = value;
+      }
+    }
+    const { $metadata, $fault, cause, errors } = error as {
+      $metadata?: Record<string, unknown>;
+      $fault?: unknown;
+      cause?: unknown;
+      errors?: unknown;
+    };
+    if ($metadata && typeof $metadata === "object") {
+      serialized.$metadata = Object.fromEntries(
+        METADATA_KEYS.filter((key) => $metadata[key] !== undefined).map(
+          (key) => [key, $metadata[key]],
+        ),
+      ) as AwsErrorMetadata;
+    }
+    if ($fault === "client" || $fault === "server") {
+      serialized.$fault = $fault;
+    }
+
+    // `seen` holds the errors being serialized, a cause pointing back to one is a cycle
+    seen.add(error);
+    const follow = (related: unknown): unknown => {
+      if (!(related instanceof Error)) {
+        return this.serializeNested(related);
+      }
+      if (seen.has(related)) {
+        return "[Circular]";
+      }
+      return causeDepth + 1 > maxCauseDepth
+        ? `[${related.name}: ${related.message}]`
+        : this.serializeError(related, causeDepth + 1, seen);
+    };
+    if (cause !== undefined) {
+      serialized.cause = follow(cause);
+    }
+    // AggregateError
+    if (Array.isArray(errors)) {
+      serialized.errors = errors.slice(0, maxErrors).map(follow);
+      if (errors.length > maxErrors) {
+        serialized.errors.push(
+          `[... ${errors.length - maxErrors} more errors]`,
+        );
+      }
+    }
+    seen.delete(error);
+    return serialized;
+  }
+
+  private static boundStack(stack: string): string {
+    const { maxStackFrames } = this.getOptions();
+    const lines = stack.split("\n");
+    const firstFrame = lines.findIndex((line) => /^\s+at /.test(line));
+    const frames = firstFrame < 0 ? 0 : lines.length - firstFrame;
+    if (frames <= maxStackFrames) {
+      return stack;
+    }
+    return [
+      ...lines.slice(0, firstFrame + maxStackFrames),
+      `    ... ${frames - maxStackFrames} more frames`,
+    ].join("\n");
+  }
+
+  private static getOptions(): ErrorSerializerOptions {
+    if (!this.options) {
+      const maxStackFrames = Number(process.env[this.STACK_FRAMES_ENV_VAR]);
+      this.options = {
+        ...this.DEFAULT_OPTIONS,
+        ...(Number.isInteger(maxStackFrames) && maxStackFrames > 0
+          ? { maxStackFrames }
+          : {}),
+      };
+    }
+    return this.options;
+  }
+}
@@ -0,0 +1,219 @@
+import type { z } from "zod";
+import { Environment } from "../common/aws/env/Environment";
+import { RuntimeEnvironment } from "../common/aws/env/RuntimeEnvironment";
+import { TracingContext } from "./tracing-utils";
+
+type HttpErrorOptions = {
+  cause?: unknown;
+  /** Extra RFC 7807 members, e.g. `errors` for validation issues */
+  extensions?: Record<string, unknown>;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Error with an HTTP status, mapped to a problem+json response by the HTTP wrappers.
+ * The message is meant for clients and returned as `detail`.
+ */
+export class HttpError extends Error {
+  readonly cause?: unknown;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    readonly statusCode: number,
+    readonly title: string,
+    message: string,
+    options?: HttpErrorOptions,
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options?.cause;
+    this.extensions = options?.extensions ?? {};
+    this.headers = options?.headers ?? {};
+  }
+}
+
+/**
+ * Input that failed schema validation, `issues` are zod issues
+ */
+export class ValidationError extends HttpError {
+  constructor(readonly issues: z.core.$ZodIssue[]) {
+    super(
+      400,
+      "Bad Request",
+      `Validation failed: ${issues
+        .map(
+          (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+        )
+        .join("; ")}`,
+      {
+        extensions: {
+          errors: issues.map((issue) => ({
+            path: issue.path.join("."),
+            code: issue.code,
+            message: issue.message,
+          })),
+        },
+      },
+    );
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Resource not found", options?: HttpErrorOptions) {
+    super(404, "Not Found", message, options);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, options?: HttpErrorOptions) {
+    super(409, "Conflict", message, options);
+  }
+}
+
+/**
+ * Request rejected because of rate limits, `retryAfterSeconds` sets the Retry-After header
+ */
+export class ThrottledError extends HttpError {
+  constructor(
+    message = "Too many requests",
+    readonly retryAfterSeconds?: number,
+    options?: HttpErrorOptions,
+  ) {
+    super(429, "Too Many Requests", message, {
+      ...options,
+      headers: {
+        ...options?.headers,
+        ...(retryAfterSeconds !== undefined
+          ? { "Retry-After": String(retryAfterSeconds) }
+          : {}),
+      },
+    });
+  }
+}
+
+/**
+ * A dependency (AWS service, partner API) failed or returned an invalid response
+ */
+export class UpstreamError extends HttpError {
+  constructor(
+    readonly upstream: string,
+    message = `Upstream ${upstream} request failed`,
+    options?: HttpErrorOptions,
+  ) {
+    super(502, "Bad Gateway", message, options);
+  }
+}
+
+type HttpProblemOptions = {
+  /** CORS headers added to every HTTP wrapper response */
+  corsHeaders: Record<string, string>;
+  /** Add error name, message, stack and cause to problems (default: known and not PROD) */
+  exposeInternalDetails: boolean;
+};
+
+export type HttpProblemResponse = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+/**
+ * Map errors to RFC 7807 problem+json responses (https://www.rfc-editor.org/rfc/rfc7807).
+ * Every problem carries the `traceId` and `requestId`.
+ *
+ * Configured with `HttpProblems.configure(...)` or from env:
+ * - `CORS_ALLOW_ORIGIN`: enables CORS headers for this origin (or `*`)
+ * - `CORS_ALLOW_HEADERS`: allowed request headers (default: the trace headers and the
+ *   API Gateway ones)
+ * Internal details are only exposed when the environment (`ENVIRONMENT`) is set and
+ * is not PROD.
+ */
+export class HttpProblems {
+  static readonly CONTENT_TYPE = "application/problem+json";
+  private static readonly DEFAULT_ALLOW_HEADERS =
+    "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Trace-Id,traceparent,tracestate,baggage";
+  private static readonly EXPOSE_HEADERS = "X-Trace-Id,traceparent";
+
+  private static options: HttpProblemOptions | undefined;
+
+  static configure(options: Partial<HttpProblemOptions>): void {
+    this.options = { ...this.getOptions(), ...options };
+  }
+
+  static getCorsHeaders(): Record<string, string> {
+    return this.getOptions().corsHeaders;
+  }
+
+  /**
+   * Problem response for any error: HttpErrors keep their status and message,
+   * anything else is a 500 without details (unless internal details are exposed).
+   */
+  static toResponse(
+    error: unknown,
+    request?: { requestId?: string; instance?: string },
+  ): HttpProblemResponse {
+    const { corsHeaders, exposeInternalDetails } = this.getOptions();
+    const httpError = error instanceof HttpError ? error : undefined;
+    const status = httpError?.statusCode ?? 500;
+    const problem = {
+      type: "about:blank",
+      title: httpError?.title ?? "Internal Server Error",
+      status,
+      detail: httpError?.message ?? "An unexpected error occurred",
+      ...(request?.instance ? { instance: request.instance } : {}),
+      ...httpError?.extensions,
+      traceId: TracingContext.getTraceId(),
+      ...(request?.requestId ? { requestId: request.requestId } : {}),
+      ...(exposeInternalDetails ? { internal: toInternalDetails(error) } : {}),
+    };
+    return {
+      statusCode: status,
+      headers: {
+        ...corsHeaders,
+        ...httpError?.headers,
+        "Content-Type": this.CONTENT_TYPE,
+      },
+      body: JSON.stringify(problem),
+    };
+  }
+
+  private static getOptions(): HttpProblemOptions {
+    if (!this.options) {
+      const allowOrigin = process.env.CORS_ALLOW_ORIGIN;
+      const environment = RuntimeEnvironment.get();
+      this.options = {
+        corsHeaders: allowOrigin
+          ? {
+              "Access-Control-Allow-Origin": allowOrigin,
+              "Access-Control-Allow-Headers":
+                process.env.CORS_ALLOW_HEADERS ?? this.DEFAULT_ALLOW_HEADERS,
+              "Access-Control-Expose-Headers": this.EXPOSE_HEADERS,
+            }
+          : {},
+        exposeInternalDetails:
+          environment !== undefined && environment !== Environment.PROD,
+      };
+    }
+    return this.options;
+  }
+}
+
+const toInternalDetails = (
+  error: unknown,
+  depth = 0,
+): Record<string, unknown> => {
+  if (!(error instanceof Error)) {
+    return { value: String(error) };
+  }
+  const cause = (error as { cause?: unknown }).cause;
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack?.split("\n").slice(1, 11).map((line) => line.trim()),
+    // bounded, causes may be cyclic
+    ...(cause !== undefined && depth < 3
+      ? { cause: toInternalDetails(cause, depth + 1) }
+      : {}),
+  };
+};
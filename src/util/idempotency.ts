@@ -0,0 +1,289 @@
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import { XrayService } from "../common/aws/services/xray-service";
+import { Middleware } from "./middleware-pipeline";
+import { TracingContext } from "./tracing-utils";
+
+export type IdempotencyRecord = {
+  key: string;
+  status: "in_progress" | "completed";
+  /** Handler result, for completed records */
+  result?: unknown;
+  /** Epoch seconds after which the record is ignored (and deleted by the DynamoDB TTL) */
+  expiresAt: number;
+};
+
+/**
+ * Storage of idempotency records. Expired records must be treated as missing.
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  /** Store an in-progress record, false if an unexpired record already exists */
+  putInProgress(key: string, expiresAt: number): Promise<boolean>;
+  complete(key: string, result: unknown, expiresAt: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Keep records in memory, for tests and local runs. Records live as long as the
+ * Lambda instance, duplicates handled by another instance are not detected.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  // synchronous, so concurrent putInProgress calls cannot both see no record
+  private find(key: string): IdempotencyRecord | undefined {
+    const record = this.records.get(key);
+    return record && record.expiresAt >= nowSeconds() ? record : undefined;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.find(key);
+  }
+
+  async putInProgress(key: string, expiresAt: number): Promise<boolean> {
+    if (this.find(key)) {
+      return false;
+    }
+    this.records.set(key, { key, status: "in_progress", expiresAt });
+    return true;
+  }
+
+  async complete(
+    key: string,
+    result: unknown,
+    expiresAt: number,
+  ): Promise<void> {
+    this.records.set(key, { key, status: "completed", result, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Keep records in a DynamoDB table with a string partition key `id` and the TTL
+ * attribute `expiresAt`. Results are stored as JSON.
+ */
+export class DynamoDbIdempotencyStore implements IdempotencyStore {
+  private readonly client: DynamoDBClient;
+
+  constructor(
+    private readonly tableName: string,
+    client?: DynamoDBClient,
+  ) {
+    this.client = XrayService.wrapClientWithXRay(
+      client ?? new DynamoDBClient({}),
+    );
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const { Item } = await this.client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ id: key }),
+        ConsistentRead: true,
+      }),
+    );
+    if (!Item) {
+      return undefined;
+    }
+    const item = unmarshall(Item);
+    if (item.expiresAt < nowSeconds()) {
+      return undefined;
+    }
+    return {
+      key,
+      status: item.status,
+      result: item.result === undefined ? undefined : JSON.parse(item.result),
+      expiresAt: item.expiresAt,
+    };
+  }
+
+  async putInProgress(key: string, expiresAt: number): Promise<boolean> {
+    try {
+      await this.client.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: marshall({ id: key, status: "in_progress", expiresAt }),
+          // the TTL deletes items late, expired items can be overwritten
+          ConditionExpression: "attribute_not_exists(id) OR expiresAt < :now",
+          ExpressionAttributeValues: marshall({ ":now": nowSeconds() }),
+        }),
+      );
+      return true;
+    } catch (err) {
+      if (err instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async complete(
+    key: string,
+    result: unknown,
+    expiresAt: number,
+  ): Promise<void> {
+    await this.client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(
+          {
+            id: key,
+            status: "completed",
+            result: result === undefined ? undefined : JSON.stringify(result),
+            expiresAt,
+          },
+          { removeUndefinedValues: true },
+        ),
+      }),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ id: key }),
+      }),
+    );
+  }
+}
+
+/**
+ * Another invocation is processing the same key. Thrown so the delivery fails and is
+ * retried once the other invocation completed (or its in-progress record expired).
+ */
+export class IdempotencyInProgressError extends Error {
+  constructor(readonly key: string) {
+    super(`Idempotency key ${key} is already being processed`);
+    this.name = "IdempotencyInProgressError";
+  }
+}
+
+/**
+ * Read a dotted path (`detail.order.id`, `$.body.orderId`) from a payload. JSON strings
+ * met on the way (e.g. an SQS `body`) are parsed.
+ */
+const readPath = (payload: unknown, path: string): unknown =>
+  path
+    .replace(/^\$\.?/, "")
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>((value, segment) => {
+      let current = value;
+      if (typeof current === "string") {
+        try {
+          current = JSON.parse(current);
+        } catch {
+          return undefined;
+        }
+      }
+      return current && typeof current === "object"
+        ? (current as Record<string, unknown>)[segment]
+        : undefined;
+    }, payload);
+
+/**
+ * Key extractors for the usual sources
+ */
+export const IdempotencyKeys = {
+  /** EventBridge event id */
+  eventId: (event: { id?: string }): string | undefined => event.id,
+  /** SQS message id */
+  sqsMessageId: (record: { messageId: string }): string => record.messageId,
+  /** Value at a dotted path into the payload, e.g. `body.orderId` for SQS records */
+  fromPath:
+    (path: string) =>
+    (event: unknown): string | undefined => {
+      const value = readPath(event, path);
+      return value === undefined || value === null ? undefined : String(value);
+    },
+};
+
+export type IdempotencyOptions<TEvent> = {
+  store: IdempotencyStore;
+  /** Key of the event, the event is processed normally when undefined */
+  key: (event: TEvent) => string | undefined;
+  /** How long completed results are kept (default: 3600) */
+  ttlSeconds?: number;
+  /** Key prefix, so functions can share a table (default: the function name) */
+  scope?: string;
+};
+
+/**
+ * Process each key once: the first delivery stores an in-progress record, then the
+ * result once completed. Duplicates get the stored result without running the handler,
+ * or an IdempotencyInProgressError while the first delivery is still running.
+ * Failed deliveries remove their record, so retries run the handler again.
+ * In-progress records expire with the invocation timeout, also when the result could
+ * not be stored.
+ */
+export const idempotencyMiddleware = <TEvent, TResult>(
+  options: IdempotencyOptions<TEvent>,
+): Middleware<TEvent, TResult> => {
+  const ttlSeconds = options.ttlSeconds ?? 3600;
+  const scope =
+    options.scope ?? process.env.AWS_LAMBDA_FUNCTION_NAME ?? "default";
+  const { store } = options;
+
+  return {
+    name: "idempotency",
+    before: async (request) => {
+      const eventKey = options.key(request.event);
+      if (eventKey === undefined) {
+        console.warn("[Idempotency] No idempotency key, processing the event");
+        return;
+      }
+      const key = `${scope}#${eventKey}`;
+      const inProgressSeconds = Math.ceil(
+        (request.context?.getRemainingTimeInMillis() ?? 900_000) / 1000,
+      );
+      if (await store.putInProgress(key, nowSeconds() + inProgressSeconds)) {
+        request.internal.idempotencyKey = key;
+        return;
+      }
+
+      const existing = await store.get(key);
+      if (existing?.status !== "completed") {
+        throw new IdempotencyInProgressError(key);
+      }
+      console.log(
+        `[Idempotency] Duplicate of ${key}, returning the stored result`,
+      );
+      TracingContext.setSpanAttributes({ "idempotency.replayed": true });
+      // null still skips the handler when the stored result is undefined
+      request.result = (existing.result ?? null) as TResult;
+    },
+    after: async (request) => {
+      const key = request.internal.idempotencyKey;
+      if (typeof key === "string") {
+        // the handler succeeded: a failed write must not fail the event, which would
+        // run it again; the in-progress record expires instead
+        await store
+          .complete(key, request.result, nowSeconds() + ttlSeconds)
+          .catch((err) => {
+            console.error(`[Idempotency] Could not complete ${key}`, err);
+          });
+      }
+    },
+    onError: async (request) => {
+      const key = request.internal.idempotencyKey;
+      if (typeof key === "string") {
+        await store.delete(key).catch((err) => {
+          console.warn(`[Idempotency] Could not release ${key}`, err);
+        });
+      }
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import { TracingContext } from "./tracing-utils";
+
+/**
+ * Log entry held back until the invocation fails, written by `write`
+ */
+export type BufferedLogEntry = {
+  /** Epoch ms at which the entry was logged */
+  time: number;
+  write: () => void;
+};
+
+/**
+ * Buffered entries of one invocation, kept in its TracingContext
+ */
+export type LogBufferState = {
+  entries: BufferedLogEntry[];
+  /** Entries dropped because the buffer was full (oldest first) */
+  dropped: number;
+};
+
+type LogBufferOptions = {
+  enabled: boolean;
+  /** Entries kept per invocation, the oldest are dropped beyond it (default: 100) */
+  maxEntries: number;
+};
+
+/**
+ * Buffering of debug/trace entries below the log level: they are kept per invocation
+ * and only written when an error is logged or the handler throws, discarded otherwise.
+ *
+ * Configured with `LogBuffer.configure(...)` or from env:
+ * - `LOG_BUFFER_ENABLED`: `true` to buffer (default: disabled, entries are dropped)
+ * - `LOG_BUFFER_MAX_ENTRIES`: size cap per invocation (default 100)
+ */
+export class LogBuffer {
+  private static readonly ENABLED_ENV_VAR = "LOG_BUFFER_ENABLED";
+  private static readonly MAX_ENTRIES_ENV_VAR = "LOG_BUFFER_MAX_ENTRIES";
+  private static readonly DEFAULT_MAX_ENTRIES = 100;
+
+  private static options: LogBufferOptions | undefined;
+
+  static configure(options: Partial<LogBufferOptions>): void {
+    this.options = { ...this.getOptions(), ...options };
+  }
+
+  /**
+   * New buffer for an invocation, undefined when buffering is disabled
+   */
+  static create(): LogBufferState | undefined {
+    return this.getOptions().enabled ? { entries: [], dropped: 0 } : undefined;
+  }
+
+  /**
+   * Buffer of the current invocation, undefined outside a traced handler
+   */
+  static getCurrent(): LogBufferState | undefined {
+    return TracingContext.getTraceContext()?.logBuffer;
+  }
+
+  static add(buffer: LogBufferState, entry: BufferedLogEntry): void {
+    buffer.entries.push(entry);
+    const overflow = buffer.entries.length - this.getOptions().maxEntries;
+    if (overflow > 0) {
+      buffer.entries.splice(0, overflow);
+      buffer.dropped += overflow;
+    }
+  }
+
+  /**
+   * Take the buffered entries out of the buffer
+   */
+  static drain(buffer: LogBufferState): LogBufferState {
+    const drained = { entries: buffer.entries, dropped: buffer.dropped };
+    buffer.entries = [];
+    buffer.dropped = 0;
+    return drained;
+  }
+
+  private static getOptions(): LogBufferOptions {
+    if (!this.options) {
+      const maxEntries = Number(process.env[this.MAX_ENTRIES_ENV_VAR]);
+      this.options = {
+        enabled: process.env[this.ENABLED_ENV_VAR] === "true",
+        maxEntries:
+          Number.isInteger(maxEntries) && maxEntries > 0
+            ? maxEntries
+            : this.DEFAULT_MAX_ENTRIES,
+      };
+    }
+    return this.options;
+  }
+}
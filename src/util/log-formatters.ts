@@ -0,0 +1,290 @@
+import os from "os";
+import type { SerializedError } from "./error-serializer";
+import type { LogLevel } from "./logger-demo";
+import type { BaggageEntries } from "./trace-baggage";
+import type { TraceLink } from "./tracing-utils";
+
+/**
+ * Trace and Lambda fields of the TracingContext a line was logged in
+ */
+export type LogTraceContext = {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  spanName?: string;
+  sampled?: boolean;
+  baggage?: BaggageEntries;
+  links?: TraceLink[];
+  lambda?: {
+    invocationId: string;
+    functionName: string;
+    functionVersion: string;
+    memoryLimitInMB: number;
+  };
+  coldStart?: boolean;
+};
+
+/**
+ * A log line before formatting
+ */
+export type LogRecordInput = {
+  /** Epoch ms at which the line was logged */
+  time: number;
+  level: LogLevel;
+  message?: string;
+  /** Child logger bindings and the logged data */
+  attributes: Record<string, unknown>;
+  /** Error logged as `data` */
+  error?: SerializedError;
+  trace: LogTraceContext;
+};
+
+/**
+ * Layout of a log line. pino writes the `level` fields first (its `formatters.level`),
+ * then the fields returned by `record`.
+ */
+export type LogFormatter = {
+  level: (level: LogLevel) => Record<string, unknown>;
+  record: (record: LogRecordInput) => Record<string, unknown>;
+};
+
+export type LogFormat = "pino" | "newrelic" | "ecs" | "otel";
+
+const ECS_VERSION = "8.11.0";
+
+// OpenTelemetry SeverityNumber of each level (first of its range)
+const OTEL_SEVERITY_NUMBERS: Record<LogLevel, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+};
+
+const serviceName = (trace: LogTraceContext): string | undefined =>
+  trace.lambda?.functionName ?? process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+const faasFields = (trace: LogTraceContext): Record<string, unknown> => ({
+  ...(trace.lambda
+    ? {
+        "faas.invocation_id": trace.lambda.invocationId,
+        "faas.name": trace.lambda.functionName,
+        "faas.version": trace.lambda.functionVersion,
+        "faas.max_memory": trace.lambda.memoryLimitInMB,
+      }
+    : {}),
+  ...(trace.coldStart !== undefined
+    ? { "faas.coldstart": trace.coldStart }
+    : {}),
+});
+
+const linkFields = (trace: LogTraceContext): Record<string, unknown> =>
+  trace.links && trace.links.length > 0
+    ? {
+        "trace.links": trace.links.map((link) => ({
+          "trace.id": link.traceId,
+          ...(link.spanId ? { "span.id": link.spanId } : {}),
+          relation: link.relation,
+        })),
+      }
+    : {};
+
+const baggageFields = (trace: LogTraceContext): Record<string, unknown> =>
+  trace.baggage && Object.keys(trace.baggage).length > 0
+    ? { baggage: trace.baggage }
+    : {};
+
+/**
+ * Serialized error flat under `prefix`, with the names of the type and stack fields
+ * (`code`, `cause`, `$metadata`, ... keep theirs)
+ */
+const errorFields = (
+  error: SerializedError,
+  prefix: string,
+  names: { type: string; stack: string },
+): Record<string, unknown> => {
+  const { type, message, stack, ...details } = error;
+  return {
+    [`${prefix}.${names.type}`]: type,
+    [`${prefix}.message`]: message,
+    ...(stack ? { [`${prefix}.${names.stack}`]: stack } : {}),
+    ...Object.fromEntries(
+      Object.entries(details).map(([key, value]) => [`${prefix}.${key}`, value]),
+    ),
+  };
+};
+
+/**
+ * pino layout: `level`/`time`/`msg`, the trace fields flat next to the data and the
+ * error under `err`
+ */
+const pinoFormatter: LogFormatter = {
+  level: (level) => ({ level }),
+  record: ({ time, message, attributes, error, trace }) => ({
+    time: new Date(time).toISOString(),
+    pid: process.pid,
+    hostname: os.hostname(),
+    ...(trace.traceId ? { "trace.id": trace.traceId } : {}),
+    ...(trace.spanId ? { "span.id": trace.spanId } : {}),
+    ...(trace.parentSpanId ? { "parent.id": trace.parentSpanId } : {}),
+    ...(trace.spanName ? { "span.name": trace.spanName } : {}),
+    ...baggageFields(trace),
+    ...linkFields(trace),
+    ...faasFields(trace),
+    ...attributes,
+    ...(error ? { err: error } : {}),
+    ...(message !== undefined ? { msg: message } : {}),
+  }),
+};
+
+/**
+ * New Relic logs in context: `timestamp` in epoch ms, `log.level`, `trace.id`/`span.id`
+ * to link the line to its trace and `entity.name` to its service
+ */
+const newRelicFormatter: LogFormatter = {
+  level: (level) => ({ "log.level": level }),
+  record: ({ time, message, attributes, error, trace }) => {
+    const entityName = serviceName(trace);
+    return {
+      timestamp: time,
+      ...(message !== undefined ? { message } : {}),
+      ...(trace.traceId ? { "trace.id": trace.traceId } : {}),
+      ...(trace.spanId ? { "span.id": trace.spanId } : {}),
+      ...(entityName
+        ? { "entity.name": entityName, "entity.type": "SERVICE" }
+        : {}),
+      hostname: os.hostname(),
+      ...(trace.parentSpanId ? { "parent.id": trace.parentSpanId } : {}),
+      ...(trace.spanName ? { "span.name": trace.spanName } : {}),
+      ...baggageFields(trace),
+      ...linkFields(trace),
+      ...faasFields(trace),
+      ...attributes,
+      ...(error
+        ? errorFields(error, "error", { type: "class", stack: "stack" })
+        : {}),
+    };
+  },
+};
+
+/**
+ * Elastic Common Schema (ecs-logging layout): `log.level`, `@timestamp`, `message` and
+ * `ecs.version` first, baggage as `labels`
+ */
+const ecsFormatter: LogFormatter = {
+  level: (level) => ({ "log.level": level }),
+  record: ({ time, message, attributes, error, trace }) => {
+    const service = serviceName(trace);
+    return {
+      "@timestamp": new Date(time).toISOString(),
+      ...(message !== undefined ? { message } : {}),
+      "ecs.version": ECS_VERSION,
+      ...(trace.traceId ? { "trace.id": trace.traceId } : {}),
+      ...(trace.spanId ? { "span.id": trace.spanId } : {}),
+      ...(service ? { "service.name": service } : {}),
+      "host.hostname": os.hostname(),
+      "process.pid": process.pid,
+      ...(trace.lambda
+        ? {
+            "faas.execution": trace.lambda.invocationId,
+            "faas.name": trace.lambda.functionName,
+            "faas.version": trace.lambda.functionVersion,
+          }
+        : {}),
+      ...(trace.coldStart !== undefined
+        ? { "faas.coldstart": trace.coldStart }
+        : {}),
+      ...(trace.baggage && Object.keys(trace.baggage).length > 0
+        ? { labels: trace.baggage }
+        : {}),
+      ...attributes,
+      ...(error
+        ? errorFields(error, "error", { type: "type", stack: "stack_trace" })
+        : {}),
+    };
+  },
+};
+
+/**
+ * OpenTelemetry log data model (LogRecord, OTLP JSON field names): the data goes into
+ * `attributes`, the function into `resource`. `observedTimeUnixNano` is the write time,
+ * later than `timeUnixNano` for buffered lines.
+ */
+const otelFormatter: LogFormatter = {
+  level: (level) => ({
+    severityNumber: OTEL_SEVERITY_NUMBERS[level],
+    severityText: level.toUpperCase(),
+  }),
+  record: ({ time, message, attributes, error, trace }) => {
+    const service = serviceName(trace);
+    return {
+      timeUnixNano: `${time}000000`,
+      observedTimeUnixNano: `${Date.now()}000000`,
+      ...(message !== undefined ? { body: message } : {}),
+      ...(trace.traceId ? { traceId: trace.traceId } : {}),
+      ...(trace.spanId ? { spanId: trace.spanId } : {}),
+      ...(trace.traceId ? { flags: trace.sampled === false ? 0 : 1 } : {}),
+      attributes: {
+        ...(trace.lambda
+          ? { "faas.invocation_id": trace.lambda.invocationId }
+          : {}),
+        ...(trace.coldStart !== undefined
+          ? { "faas.coldstart": trace.coldStart }
+          : {}),
+        ...Object.fromEntries(
+          Object.entries(trace.baggage ?? {}).map(([key, value]) => [
+            `baggage.${key}`,
+            value,
+          ]),
+        ),
+        ...attributes,
+        ...(error
+          ? errorFields(error, "exception", {
+              type: "type",
+              stack: "stacktrace",
+            })
+          : {}),
+      },
+      resource: {
+        ...(service ? { "service.name": service } : {}),
+        "cloud.provider": "aws",
+        ...(trace.lambda
+          ? {
+              "faas.name": trace.lambda.functionName,
+              "faas.version": trace.lambda.functionVersion,
+              // bytes in the semantic conventions
+              "faas.max_memory": trace.lambda.memoryLimitInMB * 1024 * 1024,
+            }
+          : {}),
+      },
+    };
+  },
+};
+
+export const LOG_FORMATTERS: Record<LogFormat, LogFormatter> = {
+  pino: pinoFormatter,
+  newrelic: newRelicFormatter,
+  ecs: ecsFormatter,
+  otel: otelFormatter,
+};
+
+const isLogFormat = (format: string): format is LogFormat =>
+  Object.prototype.hasOwnProperty.call(LOG_FORMATTERS, format);
+
+/**
+ * Formatter of a format name, `LOG_FORMAT` from env by default.
+ * Unknown names fall back to `pino`.
+ */
+export const getLogFormatter = (
+  format: string | undefined = process.env.LOG_FORMAT,
+): LogFormatter => {
+  if (!format) {
+    return LOG_FORMATTERS.pino;
+  }
+  if (isLogFormat(format)) {
+    return LOG_FORMATTERS[format];
+  }
+  console.warn(`[LoggerDemo] Unknown log format ${format}, using pino`);
+  return LOG_FORMATTERS.pino;
+};
@@ -1,12 +1,31 @@
 import pino from "pino";
 import { AtLeastOne } from "./custom-utility";
 import { TracingContext } from "./tracing-utils";
+import { ObjectRedactor } from "./object-redactor";
+import { LogBuffer } from "./log-buffer";
+import { ErrorSerializer, SerializedError } from "./error-serializer";
+import {
+  getLogFormatter,
+  LogFormatter,
+  LogTraceContext,
+} from "./log-formatters";
 
 type LoggerOptions = {
   pinoOptions?: pino.LoggerOptions;
   maxDepth?: number;
 };
 
+export type LogLevel = "fatal" | "error" | "warn" | "info" | "debug" | "trace";
+
+/**
+ * Fields added to every line of a child logger. `module` selects the module log level.
+ */
+export type LoggerBindings = {
+  module?: string;
+  integration?: string;
+  [key: string]: unknown;
+};
+
 type BaseLogData = {
   message?: string;
   data?: any;
@@ -21,51 +40,228 @@ export type LogData = AtLeastOne<BaseLogData, "message" | "data">;
 
 export type LogPayload = LogData & { options?: LogOptions };
 
+const isLogLevel = (level: unknown): level is LogLevel =>
+  typeof level === "string" && level in pino.levels.values;
+
+/**
+ * Log levels, configured with `LogLevels.configure(...)` or from env:
+ * - `LOG_LEVEL`: default level (default `info`)
+ * - `LOG_LEVEL_MODULES`: per-module levels of child loggers, e.g. `s3-replication=debug,eventbus=warn`
+ *
+ * `configure` also sets the level of the shared `logger`; child loggers keep the level
+ * they were created with, so configure levels before creating them.
+ *
+ * The level can be raised for a single sampled trace with `TracingContext.setLogLevel("debug")`
+ * or the `logLevel` baggage entry (when allow-listed in `BAGGAGE_ALLOWED_KEYS`).
+ */
+export class LogLevels {
+  private static readonly ENV_VAR = "LOG_LEVEL";
+  private static readonly MODULES_ENV_VAR = "LOG_LEVEL_MODULES";
+  private static readonly DEFAULT_LEVEL: LogLevel = "info";
+
+  private static options:
+    | { level: LogLevel; modules: Record<string, LogLevel> }
+    | undefined;
+
+  static configure(options: {
+    level?: LogLevel;
+    modules?: Record<string, LogLevel>;
+  }): void {
+    this.options = { ...this.getOptions(), ...options };
+    LoggerDemo.applyLevel();
+  }
+
+  static getLevel(module?: string): LogLevel {
+    const { level, modules } = this.getOptions();
+    return (module && modules[module]) || level;
+  }
+
+  /**
+   * Level raised for the current trace, only for sampled traces
+   */
+  static getTraceLevel(): LogLevel | undefined {
+    if (!TracingContext.getTraceContext() || !TracingContext.isSampled()) {
+      return undefined;
+    }
+    const level =
+      TracingContext.getLogLevel() ?? TracingContext.getBaggage().logLevel;
+    return isLogLevel(level) ? level : undefined;
+  }
+
+  private static getOptions(): {
+    level: LogLevel;
+    modules: Record<string, LogLevel>;
+  } {
+    if (!this.options) {
+      const level = process.env[this.ENV_VAR]?.toLowerCase();
+      if (level && !isLogLevel(level)) {
+        console.warn(`[LogLevels] Ignoring invalid ${this.ENV_VAR}: ${level}`);
+      }
+      this.options = {
+        level: isLogLevel(level) ? level : this.DEFAULT_LEVEL,
+        modules: this.parseModules(process.env[this.MODULES_ENV_VAR]),
+      };
+    }
+    return this.options;
+  }
+
+  private static parseModules(value?: string): Record<string, LogLevel> {
+    const modules: Record<string, LogLevel> = {};
+    for (const entry of (value ?? "").split(",")) {
+      if (!entry.trim()) {
+        continue;
+      }
+      const [module, level] = entry.split("=").map((part) => part.trim());
+      if (module && isLogLevel(level?.toLowerCase())) {
+        modules[module] = level.toLowerCase() as LogLevel;
+      } else {
+        console.warn(
+          `[LogLevels] Ignoring invalid ${this.MODULES_ENV_VAR} entry: ${entry}`
+        );
+      }
+    }
+    return modules;
+  }
+}
+
+/**
+ * Trace, span and Lambda fields of the current TracingContext, added to every log line
+ */
+const getLogTraceContext = (): LogTraceContext => {
+  try {
+    const traceId = TracingContext.getTraceId();
+    const span = TracingContext.getActiveSpan();
+    const lambdaContext = TracingContext.getLambdaContext();
+    return {
+      traceId,
+      spanId: TracingContext.getSpanId(),
+      parentSpanId: span?.parentSpanId,
+      spanName: span?.name,
+      sampled: traceId ? TracingContext.isSampled() : undefined,
+      baggage: TracingContext.getBaggage(),
+      links: TracingContext.getLinks(),
+      lambda: lambdaContext
+        ? {
+            invocationId: lambdaContext.awsRequestId,
+            functionName: lambdaContext.functionName,
+            functionVersion: lambdaContext.functionVersion,
+            memoryLimitInMB: Number(lambdaContext.memoryLimitInMB),
+          }
+        : undefined,
+      coldStart: TracingContext.isColdStart(),
+    };
+  } catch (err) {
+    // If TracingContext is not available for some reason, don't break logging
+    return {};
+  }
+};
+
 /**
  * Temporary demo logger to use pino for tracing logging demonstration
  */
 export class LoggerDemo {
   private static instance: LoggerDemo;
-  // private defaultMaxDepth: number;
-  private pinoLogger: pino.Logger;
+  // loggers with the level raised for a trace, by level
+  private raisedLoggers = new Map<LogLevel, pino.Logger>();
 
-  private constructor(options?: LoggerOptions) {
-    // this.defaultMaxDepth = options?.maxDepth || 10;
-    this.pinoLogger = pino({
-      level: "info",
+  private constructor(
+    private pinoLogger: pino.Logger,
+    private defaultMaxDepth: number,
+    private readonly formatter: LogFormatter,
+    private readonly module?: string,
+    private readonly bindings: LoggerBindings = {}
+  ) {}
+
+  /**
+   * The format comes from `LOG_FORMAT` (see getLogFormatter), read once when the shared
+   * logger is created on import
+   */
+  private static create(options?: LoggerOptions): LoggerDemo {
+    const formatter = getLogFormatter();
+    // pino writes the level fields of the format; the time, which is the log time of
+    // buffered lines, and the other fields come from the formatter
+    const pinoLogger = pino({
+      level: LogLevels.getLevel(),
+      base: null,
+      timestamp: false,
       formatters: {
-        level: (label: string) => {
-          return { level: label };
-        },
+        level: (label) => formatter.level(label as LogLevel),
       },
-      timestamp: pino.stdTimeFunctions.isoTime,
+      // errors are serialized by ErrorSerializer
+      serializers: { err: (err: unknown) => err },
       ...options?.pinoOptions,
-
-      mixin: () => {
-        try {
-          // inject traceId from TracingContext into every log record when available
-          const traceId = TracingContext.getTraceId();
-          const spanId = TracingContext.getSpanId();
-          return {
-            ...(traceId ? { "trace.id": traceId } : {}),
-            ...(spanId ? { id: spanId } : {}),
-            timestamp: new Date().toISOString(),
-          };
-        } catch (err) {
-          // If TracingContext is not available for some reason, don't break logging
-          return {};
-        }
-      },
     });
+    return new LoggerDemo(pinoLogger, options?.maxDepth || 10, formatter);
   }
 
+  /**
+   * The shared logger. Options only apply to the first call, which creates it.
+   */
   public static getLogger(options?: LoggerOptions): LoggerDemo {
     if (!LoggerDemo.instance) {
-      LoggerDemo.instance = new LoggerDemo(options);
+      LoggerDemo.instance = LoggerDemo.create(options);
+    } else if (options) {
+      console.warn(
+        "[LoggerDemo] getLogger options ignored, the logger already exists; use child() for bindings"
+      );
     }
     return LoggerDemo.instance;
   }
 
+  /**
+   * Set the shared logger, created on import, to the configured level (see LogLevels)
+   */
+  public static applyLevel(): void {
+    if (LoggerDemo.instance) {
+      LoggerDemo.instance.pinoLogger.level = LogLevels.getLevel();
+    }
+  }
+
+  /**
+   * Logger adding `bindings` to every line, at the level of its module (see LogLevels).
+   * Children inherit the module of their parent.
+   *
+   * Sample usage:
+   * const log = logger.child({ module: "s3-replication", integration: "quickplay" });
+   */
+  public child(bindings: LoggerBindings): LoggerDemo {
+    const module = bindings.module ?? this.module;
+    return new LoggerDemo(
+      this.pinoLogger.child({}, { level: LogLevels.getLevel(module) }),
+      this.defaultMaxDepth,
+      this.formatter,
+      module,
+      { ...this.bindings, ...bindings }
+    );
+  }
+
+  /**
+   * Pino logger to write `level` with, undefined when the level is disabled.
+   * A level raised for the current trace enables levels below the configured one.
+   */
+  private getPinoLoggerFor(level: LogLevel): pino.Logger | undefined {
+    if (this.pinoLogger.isLevelEnabled(level)) {
+      return this.pinoLogger;
+    }
+    const traceLevel = LogLevels.getTraceLevel();
+    if (
+      !traceLevel ||
+      pino.levels.values[traceLevel] > pino.levels.values[level]
+    ) {
+      return undefined;
+    }
+    return this.getRaisedLogger(traceLevel);
+  }
+
+  private getRaisedLogger(level: LogLevel): pino.Logger {
+    let raised = this.raisedLoggers.get(level);
+    if (!raised) {
+      raised = this.pinoLogger.child({}, { level });
+      this.raisedLoggers.set(level, raised);
+    }
+    return raised;
+  }
+
   private processArgs(
     payload: LogData,
     options?: LogOptions
@@ -77,6 +273,9 @@ export class LoggerDemo {
       return { message };
     }
 
+    // errors anywhere in the data, which JSON would write as {}
+    const data = ErrorSerializer.serializeNested(payload.data);
+
     // Check if redaction should be skipped (default is to apply redaction)
     const shouldSkipRedaction = options?.skipRedaction ?? false;
 
@@ -84,43 +283,101 @@ export class LoggerDemo {
     if (shouldSkipRedaction) {
       return {
         message,
-        data: payload.data,
+        data,
       };
     }
 
     // Apply redaction with whitelist
-    // const redactor = new ObjectRedactor({
-    //     maxDepth: this.defaultMaxDepth,
-    //     // whitelist: options?.whitelist || [],
-    // });
+    const redactor = new ObjectRedactor({
+      maxDepth: this.defaultMaxDepth,
+      whitelist: options?.whitelist || [],
+    });
 
-    // apply redaction here
     return {
       message,
-      data: payload.data,
+      data: redactor.redact(data),
     };
   }
 
-  private log(
-    level: "info" | "warn" | "debug" | "trace" | "error" | "fatal",
+  private log(level: LogLevel, payload: LogData, options?: LogOptions): void {
+    if (level === "error" || level === "fatal") {
+      this.flushBufferedLogs();
+    }
+    const pinoLogger = this.getPinoLoggerFor(level);
+    if (pinoLogger) {
+      if (pinoLogger !== this.pinoLogger) {
+        // the level is raised for this trace: the lines buffered before go first
+        this.flushBufferedLogs();
+      }
+      this.prepareWrite(pinoLogger, level, payload, options)(
+        getLogTraceContext(),
+        Date.now()
+      );
+      return;
+    }
+    const buffer = LogBuffer.getCurrent();
+    if (buffer && (level === "debug" || level === "trace")) {
+      // processed now, so the entry keeps the data and trace fields of this moment
+      const write = this.prepareWrite(
+        this.getRaisedLogger(level),
+        level,
+        payload,
+        options
+      );
+      const trace = getLogTraceContext();
+      const time = Date.now();
+      LogBuffer.add(buffer, { time, write: () => write(trace, time) });
+    }
+  }
+
+  private prepareWrite(
+    pinoLogger: pino.Logger,
+    level: LogLevel,
     payload: LogData,
     options?: LogOptions
-  ): void {
-    const { message: msg, data: logData } = this.processArgs(payload, options);
-    let metadata: Record<string, unknown> | undefined;
+  ): (trace: LogTraceContext, time: number) => void {
+    const { message, data: logData } = this.processArgs(payload, options);
+    const error =
+      payload.data instanceof Error ? (logData as SerializedError) : undefined;
+    const attributes = {
+      ...this.bindings,
+      ...(!error && logData && typeof logData === "object" ? logData : {}),
+    };
 
-    if (logData instanceof Error) {
-      metadata = { err: logData };
-    } else if (logData && typeof logData === "object") {
-      metadata = { ...logData };
-    }
+    return (trace, time) => {
+      pinoLogger[level](
+        this.formatter.record({
+          time,
+          level,
+          message,
+          attributes,
+          error,
+          trace,
+        })
+      );
+    };
+  }
 
-    if (metadata && msg) {
-      this.pinoLogger[level](metadata, msg);
-    } else if (metadata) {
-      this.pinoLogger[level](metadata);
-    } else if (msg) {
-      this.pinoLogger[level](msg);
+  /**
+   * Write the debug logs buffered by the current invocation (see LogBuffer), with the
+   * time and trace fields they were logged with. Called on error/fatal logs, on the first
+   * line written at a level raised for the trace and by the traced handlers when the
+   * handler throws.
+   */
+  public flushBufferedLogs(): void {
+    const buffer = LogBuffer.getCurrent();
+    if (!buffer) {
+      return;
+    }
+    const { entries, dropped } = LogBuffer.drain(buffer);
+    if (dropped > 0) {
+      this.prepareWrite(this.getRaisedLogger("debug"), "debug", {
+        message: `Log buffer full, ${dropped} earlier entries dropped`,
+        data: { "log.buffer_dropped": dropped },
+      })(getLogTraceContext(), entries[0]?.time ?? Date.now());
+    }
+    for (const entry of entries) {
+      entry.write();
     }
   }
 
@@ -150,6 +407,15 @@ export class LoggerDemo {
     this.log("fatal", payload, fatalOptions);
   }
 
+  /**
+   * Write out anything pending, e.g. before the Lambda runtime is frozen or timed out
+   */
+  public flush(): Promise<void> {
+    return new Promise((resolve) => {
+      this.pinoLogger.flush(() => resolve());
+    });
+  }
+
   public getPinoLogger(): pino.Logger {
     return this.pinoLogger;
   }
@@ -0,0 +1,93 @@
+import type { Context } from "aws-lambda";
+
+/**
+ * State of one handler invocation, shared by the middlewares of the chain.
+ * Middlewares may replace `event` (e.g. with a parsed version) before the handler runs,
+ * and `result` afterwards.
+ */
+export type MiddlewareRequest<TEvent = any, TResult = any> = {
+  event: TEvent;
+  /** Lambda context of the invocation, undefined when called outside Lambda */
+  context?: Context;
+  result?: TResult;
+  error?: unknown;
+  /** Per-invocation state for middlewares, keyed by middleware name */
+  internal: Record<string, unknown>;
+};
+
+/**
+ * Cross-cutting concern around a handler.
+ *
+ * - `before` hooks run in order. Setting `request.result` skips the handler.
+ * - `after` hooks run in reverse order once the handler returned.
+ * - `onError` hooks run in reverse order when the handler or a hook threw. Clearing
+ *   `request.error` (usually after setting `request.result`) handles the error; the
+ *   remaining `onError` hooks still run, e.g. to record the failure.
+ * - `wrap` runs the rest of the chain inside a scope, for concerns that cannot be split in
+ *   before/after (e.g. the AsyncLocalStorage tracing context). Wraps nest in order.
+ */
+export interface Middleware<TEvent = any, TResult = any> {
+  readonly name: string;
+  before?(request: MiddlewareRequest<TEvent, TResult>): void | Promise<void>;
+  after?(request: MiddlewareRequest<TEvent, TResult>): void | Promise<void>;
+  onError?(request: MiddlewareRequest<TEvent, TResult>): void | Promise<void>;
+  wrap?(
+    request: MiddlewareRequest<TEvent, TResult>,
+    next: () => Promise<void>,
+  ): Promise<void>;
+}
+
+/**
+ * Run a handler through a middleware chain, used by all traced handlers.
+ *
+ * Sample usage:
+ * export const handler = tracedSqsHandler(fn, {
+ *   middlewares: [timingMiddleware(), myTenantMiddleware],
+ * });
+ */
+export const runWithMiddlewares = async <TEvent, TResult>(
+  middlewares: ReadonlyArray<Middleware<TEvent, TResult>>,
+  event: TEvent,
+  context: Context | undefined,
+  handler: (event: TEvent, context?: Context) => Promise<TResult>,
+): Promise<TResult> => {
+  const request: MiddlewareRequest<TEvent, TResult> = {
+    event,
+    context,
+    internal: {},
+  };
+  const reversed = [...middlewares].reverse();
+
+  const runHooks = async (): Promise<void> => {
+    try {
+      for (const middleware of middlewares) {
+        await middleware.before?.(request);
+        if (request.result !== undefined) {
+          break;
+        }
+      }
+      if (request.result === undefined) {
+        request.result = await handler(request.event, request.context);
+      }
+      for (const middleware of reversed) {
+        await middleware.after?.(request);
+      }
+    } catch (err) {
+      request.error = err;
+      for (const middleware of reversed) {
+        await middleware.onError?.(request);
+      }
+      if (request.error !== undefined) {
+        throw request.error;
+      }
+    }
+  };
+
+  const run = middlewares.reduceRight<() => Promise<void>>(
+    (next, middleware) =>
+      middleware.wrap ? () => middleware.wrap!(request, next) : next,
+    runHooks,
+  );
+  await run();
+  return request.result as TResult;
+};
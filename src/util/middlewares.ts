@@ -0,0 +1,198 @@
+import type { Context } from "aws-lambda";
+import { z } from "zod";
+import { Middleware } from "./middleware-pipeline";
+import { SpanAttributes, TraceContext, TracingContext } from "./tracing-utils";
+import { TimeoutWarning } from "./timeout-warning";
+import { LogBuffer } from "./log-buffer";
+import { logger } from "./logger-demo";
+import {
+  HttpProblemResponse,
+  HttpProblems,
+  ValidationError,
+} from "./http-errors";
+import { parseHttpRequest, RequestSchemas } from "./request-validation";
+
+// module scope survives between invocations of a warm Lambda
+let firstRequestId: string | undefined;
+let firstInvocation = true;
+
+/**
+ * Cold start if this is the first invocation (request id) the Lambda instance has seen.
+ * All records of a batch share the invocation, so they share the cold start.
+ */
+const isColdStart = (context: Context): boolean => {
+  firstRequestId ??= context.awsRequestId;
+  return context.awsRequestId === firstRequestId;
+};
+
+/**
+ * Run the rest of the chain inside a tracing context and a root span.
+ * Added first by every traced handler. The Lambda context, when given, is kept in
+ * the tracing context (`TracingContext.getLambdaContext()`) and used to warn before
+ * the invocation times out (see TimeoutWarning).
+ * Debug logs buffered during the invocation (see LogBuffer) are written when the
+ * handler or a middleware throws, even if the error is turned into a response later.
+ */
+export const tracingMiddleware = <TEvent>(options: {
+  extract: (event: TEvent) => TraceContext;
+  spanName: string | ((event: TEvent) => string);
+  attributes?: (event: TEvent) => SpanAttributes;
+}): Middleware<TEvent> => ({
+  name: "tracing",
+  wrap: (request, next) => {
+    const { context } = request;
+    const coldStart = context ? isColdStart(context) : undefined;
+    return TracingContext.withTraceContext(
+      {
+        ...options.extract(request.event),
+        ...(context ? { lambdaContext: context, coldStart } : {}),
+        logBuffer: LogBuffer.create(),
+      },
+      () =>
+        TracingContext.startSpan(
+          typeof options.spanName === "string"
+            ? options.spanName
+            : options.spanName(request.event),
+          async () => {
+            const cancelTimeoutWarning = TimeoutWarning.schedule(context);
+            try {
+              await next();
+            } finally {
+              cancelTimeoutWarning();
+            }
+          },
+          {
+            ...(context
+              ? {
+                  "faas.invocation_id": context.awsRequestId,
+                  "faas.coldstart": Boolean(coldStart),
+                }
+              : {}),
+            ...options.attributes?.(request.event),
+          },
+        ),
+    );
+  },
+  onError: () => {
+    logger.flushBufferedLogs();
+  },
+});
+
+/**
+ * Validate the event (or the part returned by `select`) against a zod schema.
+ * Without `select`, the handler receives the parsed event.
+ * With `select`, the parsed value is kept in `request.internal.validation`.
+ */
+export const validationMiddleware = <TSchema extends z.ZodType>(
+  schema: TSchema,
+  select?: (event: any) => unknown,
+): Middleware => ({
+  name: "validation",
+  before: (request) => {
+    const parsed = schema.safeParse(
+      select ? select(request.event) : request.event,
+    );
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.issues);
+    }
+    if (select) {
+      request.internal.validation = parsed.data;
+    } else {
+      request.event = parsed.data;
+    }
+  },
+});
+
+/**
+ * Validate the body, query, path and headers of an HTTP event (see parseHttpRequest)
+ * and add the parsed parts to the event as `validated`. Added by the HTTP wrappers
+ * for their `schemas` option.
+ */
+export const requestValidationMiddleware = (
+  schemas: RequestSchemas,
+): Middleware => ({
+  name: "requestValidation",
+  before: (request) => {
+    request.event = {
+      ...request.event,
+      validated: parseHttpRequest(schemas, request.event),
+    };
+  },
+});
+
+/**
+ * Turn errors into RFC 7807 problem+json responses (see HttpProblems), for the HTTP
+ * wrappers. `describe` provides the request id and path of the problem; the Lambda
+ * request id is used by default.
+ */
+export const errorResponseMiddleware = <TEvent = any>(
+  describe?: (event: TEvent) => { requestId?: string; instance?: string },
+): Middleware<TEvent, HttpProblemResponse> => ({
+  name: "errorResponse",
+  onError: (request) => {
+    const { error } = request;
+    if (error === undefined) {
+      return;
+    }
+    const described = describe?.(request.event);
+    request.result = HttpProblems.toResponse(error, {
+      requestId: described?.requestId ?? request.context?.awsRequestId,
+      instance: described?.instance,
+    });
+    const { statusCode } = request.result;
+    if (statusCode >= 500) {
+      console.error(
+        "[errorResponseMiddleware] Request failed",
+        statusCode,
+        error,
+      );
+      // the error is handled here, so the root span would otherwise end as ok
+      TracingContext.recordException(error);
+    } else {
+      console.warn(
+        "[errorResponseMiddleware] Request rejected",
+        statusCode,
+        String(error),
+      );
+    }
+    TracingContext.setSpanAttributes({ "http.status_code": statusCode });
+    request.error = undefined;
+  },
+});
+
+/**
+ * Flag the first invocation of the Lambda instance on the root span (`faas.coldstart`)
+ * and in `request.internal.coldStart`. Falls back to the first call of the handler
+ * when there is no Lambda context.
+ */
+export const coldStartMiddleware = (): Middleware => ({
+  name: "coldStart",
+  before: (request) => {
+    const coldStart = TracingContext.isColdStart() ?? firstInvocation;
+    firstInvocation = false;
+    request.internal.coldStart = coldStart;
+    TracingContext.setSpanAttributes({ "faas.coldstart": coldStart });
+  },
+});
+
+/**
+ * Measure the handler duration, recorded on the root span and logged
+ */
+export const timingMiddleware = (): Middleware => {
+  const record = (internal: Record<string, unknown>, outcome: string): void => {
+    if (typeof internal.timingStart !== "number") {
+      return;
+    }
+    const durationMs = Date.now() - internal.timingStart;
+    TracingContext.setSpanAttributes({ "handler.duration_ms": durationMs });
+    console.log(`[Timing] Handler ${outcome} in ${durationMs}ms`);
+  };
+  return {
+    name: "timing",
+    before: (request) => {
+      request.internal.timingStart = Date.now();
+    },
+    after: (request) => record(request.internal, "completed"),
+    onError: (request) => record(request.internal, "failed"),
+  };
+};
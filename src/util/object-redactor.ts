@@ -0,0 +1,173 @@
+export type RedactorOptions = {
+  /** Nesting below this depth is replaced by a marker (default: 10) */
+  maxDepth?: number;
+  /** Array items kept, the rest is replaced by a marker (default: 100) */
+  maxArrayLength?: number;
+  /** Keys (case-insensitive) or dotted paths (`headers.authorization`) left as is */
+  whitelist?: string[];
+  /** Keys whose value is redacted (default: DEFAULT_SENSITIVE_KEYS) */
+  sensitiveKeys?: RegExp[];
+  /** Patterns replaced inside string values (default: DEFAULT_SENSITIVE_VALUES) */
+  sensitiveValues?: SensitiveValuePattern[];
+};
+
+export type SensitiveValuePattern = {
+  name: string;
+  /** Global regex of the sensitive parts */
+  pattern: RegExp;
+  /** Extra check of a match, e.g. the Luhn checksum of card numbers */
+  verify?: (match: string) => boolean;
+};
+
+export const REDACTED = "[REDACTED]";
+
+export const DEFAULT_SENSITIVE_KEYS: RegExp[] = [
+  /authorization/i,
+  /cookie/i,
+  /passw(or)?d/i,
+  /token/i,
+  /secret/i,
+  /access[-_]?key/i,
+  /api[-_]?key/i,
+];
+
+/**
+ * Luhn checksum, so that ids and timestamps are not taken for card numbers
+ */
+const isLuhnValid = (value: string): boolean => {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const DEFAULT_SENSITIVE_VALUES: SensitiveValuePattern[] = [
+  {
+    name: "JWT",
+    pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  },
+  {
+    name: "EMAIL",
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  },
+  {
+    name: "CARD",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    verify: isLuhnValid,
+  },
+];
+
+/**
+ * Copy of a log payload without secrets and personal data:
+ * - values of sensitive keys (authorization, cookie, password, token, ...) are redacted
+ * - emails, card numbers and JWTs inside strings are replaced by `[REDACTED_<NAME>]`
+ * - whitelisted keys and paths are kept as is
+ * - nesting beyond `maxDepth`, array items beyond `maxArrayLength` and circular
+ *   references are replaced by markers
+ * Only plain objects and arrays are traversed; errors, dates, buffers, ... are kept.
+ */
+export class ObjectRedactor {
+  private readonly maxDepth: number;
+  private readonly maxArrayLength: number;
+  private readonly whitelist: Set<string>;
+  private readonly sensitiveKeys: RegExp[];
+  private readonly sensitiveValues: SensitiveValuePattern[];
+
+  constructor(options?: RedactorOptions) {
+    this.maxDepth = options?.maxDepth ?? 10;
+    this.maxArrayLength = options?.maxArrayLength ?? 100;
+    this.whitelist = new Set(
+      (options?.whitelist ?? []).map((entry) => entry.toLowerCase()),
+    );
+    this.sensitiveKeys = options?.sensitiveKeys ?? DEFAULT_SENSITIVE_KEYS;
+    this.sensitiveValues = options?.sensitiveValues ?? DEFAULT_SENSITIVE_VALUES;
+  }
+
+  redact(value: unknown): unknown {
+    return this.redactValue(value, [], new Set());
+  }
+
+  private redactValue(
+    value: unknown,
+    path: string[],
+    ancestors: Set<object>,
+  ): unknown {
+    if (typeof value === "string") {
+      return this.redactString(value);
+    }
+    if (!value || typeof value !== "object" || !this.isTraversable(value)) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return "[Circular]";
+    }
+    if (path.length >= this.maxDepth) {
+      return Array.isArray(value) ? `[Array(${value.length})]` : "[Object]";
+    }
+
+    ancestors.add(value);
+    try {
+      if (Array.isArray(value)) {
+        const items = value
+          .slice(0, this.maxArrayLength)
+          .map((item, index) =>
+            this.redactValue(item, [...path, String(index)], ancestors),
+          );
+        if (value.length > this.maxArrayLength) {
+          items.push(`[... ${value.length - this.maxArrayLength} more items]`);
+        }
+        return items;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = [...path, key];
+        if (this.isWhitelisted(key, childPath)) {
+          result[key] = child;
+        } else if (this.sensitiveKeys.some((pattern) => pattern.test(key))) {
+          result[key] =
+            child === undefined || child === null ? child : REDACTED;
+        } else {
+          result[key] = this.redactValue(child, childPath, ancestors);
+        }
+      }
+      return result;
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  private redactString(value: string): string {
+    return this.sensitiveValues.reduce(
+      (redacted, { name, pattern, verify }) =>
+        redacted.replace(pattern, (match) =>
+          !verify || verify(match) ? `[REDACTED_${name}]` : match,
+        ),
+      value,
+    );
+  }
+
+  private isWhitelisted(key: string, path: string[]): boolean {
+    return (
+      this.whitelist.has(key.toLowerCase()) ||
+      this.whitelist.has(path.join(".").toLowerCase())
+    );
+  }
+
+  private isTraversable(value: object): boolean {
+    if (Array.isArray(value)) {
+      return true;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
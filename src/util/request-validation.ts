@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { Json } from "../common/aws/utils/Json";
+import { ValidationError } from "./http-errors";
+
+/**
+ * Parts of an HTTP event that can be validated, shared by API Gateway REST (v1),
+ * HTTP API (v2) and ALB events.
+ */
+export type HttpRequestEvent = {
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  headers?: Record<string, string | undefined> | null;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  pathParameters?: Record<string, string | undefined> | null;
+};
+
+/**
+ * zod schemas of the request parts. `body` is parsed as a JSON object first (`{}` when
+ * empty), `headers` names are lower-cased, `query`/`path` values are strings (use
+ * `z.coerce` for numbers).
+ */
+export type RequestSchemas = {
+  body?: z.ZodType<unknown, Record<string, unknown>>;
+  query?: z.ZodType;
+  path?: z.ZodType;
+  headers?: z.ZodType;
+};
+
+type RawRequest = {
+  body: string | undefined;
+  query: Record<string, string | undefined>;
+  path: Record<string, string | undefined>;
+  headers: Record<string, string | undefined>;
+};
+
+/**
+ * Handler input: the parsed value of each part with a schema, the raw part otherwise
+ */
+export type ValidatedRequest<S extends RequestSchemas> = {
+  [K in keyof RawRequest]: S[K] extends z.ZodType
+    ? z.output<S[K]>
+    : RawRequest[K];
+};
+
+/**
+ * Event received by a handler wrapped with `schemas`: the parsed request parts are
+ * under `validated`
+ */
+export type ValidatedHttpEvent<
+  TEvent,
+  S extends RequestSchemas | undefined,
+> = S extends RequestSchemas
+  ? TEvent & { validated: ValidatedRequest<S> }
+  : TEvent;
+
+const getRawRequest = (event: HttpRequestEvent): RawRequest => ({
+  body:
+    event.body && event.isBase64Encoded
+      ? Buffer.from(event.body, "base64").toString("utf8")
+      : (event.body ?? undefined),
+  query: event.queryStringParameters ?? {},
+  path: event.pathParameters ?? {},
+  headers: Object.fromEntries(
+    Object.entries(event.headers ?? {}).map(([name, value]) => [
+      name.toLowerCase(),
+      value,
+    ]),
+  ),
+});
+
+/**
+ * Validate the request parts of an HTTP event against their schemas.
+ * All parts are checked; issue paths are prefixed with the part (e.g. `body.items.0.sku`).
+ * Throws a ValidationError, mapped to a 400 problem response by the HTTP wrappers.
+ */
+export const parseHttpRequest = <S extends RequestSchemas>(
+  schemas: S,
+  event: HttpRequestEvent,
+): ValidatedRequest<S> => {
+  const raw = getRawRequest(event);
+  const issues: z.core.$ZodIssue[] = [];
+  const parsed: Record<string, unknown> = { ...raw };
+
+  for (const part of Object.keys(raw) as (keyof RawRequest)[]) {
+    const schema = schemas[part];
+    if (!schema) {
+      continue;
+    }
+    const result =
+      part === "body" && schemas.body
+        ? Json.safeParse(schemas.body, raw.body || "{}")
+        : schema.safeParse(raw[part]);
+    if (result.success) {
+      parsed[part] = result.data;
+    } else {
+      issues.push(
+        ...result.error.issues.map((issue) => ({
+          ...issue,
+          path: [part, ...issue.path],
+        })),
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return parsed as ValidatedRequest<S>;
+};
@@ -0,0 +1,344 @@
+import crypto from "crypto";
+import type { Span, SpanAttributeValue } from "./tracing-utils";
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: Span[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+type BatchSpanProcessorOptions = {
+  /** Export as soon as this many spans are buffered (default: 100) */
+  maxBatchSize?: number;
+  /** Drop spans once this many are buffered and not yet exported (default: 2048) */
+  maxQueueSize?: number;
+};
+
+/**
+ * Buffer finished spans and hand them to the exporter in batches.
+ * There is no timer-based export: the Lambda runtime freezes between invocations, so
+ * the traced handlers call `forceFlush()` before returning.
+ */
+export class BatchSpanProcessor {
+  private buffer: Span[] = [];
+  private pending = new Set<Promise<void>>();
+  private dropped = 0;
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    options?: BatchSpanProcessorOptions,
+  ) {
+    this.maxBatchSize = options?.maxBatchSize ?? 100;
+    this.maxQueueSize = options?.maxQueueSize ?? 2048;
+  }
+
+  onEnd(span: Span): void {
+    if (this.buffer.length >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.buffer.push(span);
+    if (this.buffer.length >= this.maxBatchSize) {
+      this.exportBatch();
+    }
+  }
+
+  /**
+   * Export everything buffered and wait for in-flight exports. Never throws.
+   */
+  async forceFlush(): Promise<void> {
+    while (this.buffer.length > 0) {
+      this.exportBatch();
+    }
+    await Promise.all(this.pending);
+    if (this.dropped > 0) {
+      console.warn(
+        `[BatchSpanProcessor] Dropped ${this.dropped} spans, queue was full`,
+      );
+      this.dropped = 0;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+    await this.exporter.shutdown?.();
+  }
+
+  private exportBatch(): void {
+    const batch = this.buffer.splice(0, this.maxBatchSize);
+    const exporting: Promise<void> = this.exporter
+      .export(batch)
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(
+          `[BatchSpanProcessor] Failed to export ${batch.length} spans: ${message}`,
+        );
+      })
+      .finally(() => {
+        this.pending.delete(exporting);
+      });
+    this.pending.add(exporting);
+  }
+}
+
+/**
+ * Keep spans in memory, for tests.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: Span[] = [];
+
+  async export(spans: Span[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): Span[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Write one New Relic compatible span JSON object per line to stdout
+ * (see https://docs.newrelic.com/docs/distributed-tracing/trace-api/report-new-relic-format-traces-trace-api/).
+ * Lines can be forwarded from CloudWatch Logs by the NR log ingestion.
+ */
+export class StdoutSpanExporter implements SpanExporter {
+  constructor(private readonly serviceName: string = getServiceName()) {}
+
+  async export(spans: Span[]): Promise<void> {
+    for (const span of spans) {
+      process.stdout.write(`${JSON.stringify(this.toNewRelicSpan(span))}\n`);
+    }
+  }
+
+  private toNewRelicSpan(span: Span): Record<string, unknown> {
+    return {
+      id: span.spanId,
+      "trace.id": span.traceId,
+      timestamp: span.startTime,
+      attributes: {
+        ...span.attributes,
+        name: span.name,
+        "service.name": this.serviceName,
+        "duration.ms": (span.endTime ?? span.startTime) - span.startTime,
+        ...(span.parentSpanId ? { "parent.id": span.parentSpanId } : {}),
+        ...(span.status === "error"
+          ? { error: true, "error.message": span.statusMessage }
+          : {}),
+        // NR span attributes must be primitives
+        ...(span.links.length > 0
+          ? { "trace.links": JSON.stringify(span.links) }
+          : {}),
+      },
+    };
+  }
+}
+
+type OtlpHttpJsonSpanExporterOptions = {
+  /** Full traces endpoint, e.g. https://otlp.nr-data.net/v1/traces */
+  endpoint: string;
+  headers?: Record<string, string>;
+  serviceName?: string;
+  timeoutMs?: number;
+};
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+/**
+ * Export spans as OTLP/HTTP JSON (https://opentelemetry.io/docs/specs/otlp/#otlphttp)
+ */
+export class OtlpHttpJsonSpanExporter implements SpanExporter {
+  private static readonly STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+  private static readonly SPAN_KIND_INTERNAL = 1;
+
+  private readonly serviceName: string;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: OtlpHttpJsonSpanExporterOptions) {
+    this.serviceName = options.serviceName ?? getServiceName();
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    if (spans.length === 0) {
+      return;
+    }
+    const response = await fetch(this.options.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.options.headers,
+      },
+      body: JSON.stringify(this.toExportRequest(spans)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `OTLP export to ${this.options.endpoint} failed with status ${response.status}`,
+      );
+    }
+  }
+
+  private toExportRequest(spans: Span[]): Record<string, unknown> {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: [
+              { key: "service.name", value: { stringValue: this.serviceName } },
+            ],
+          },
+          scopeSpans: [
+            {
+              scope: { name: "tracing-utils" },
+              spans: spans.map((span) => this.toOtlpSpan(span)),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  private toOtlpSpan(span: Span): Record<string, unknown> {
+    const traceId = toOtlpTraceId(span.traceId);
+    const attributes = {
+      ...span.attributes,
+      // keep ids that had to be hashed into the OTLP format
+      ...(traceId !== span.traceId ? { "trace.original_id": span.traceId } : {}),
+    };
+    return {
+      traceId,
+      spanId: span.spanId,
+      ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+      name: span.name,
+      kind: OtlpHttpJsonSpanExporter.SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(span.startTime),
+      endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+      attributes: Object.entries(attributes).map(([key, value]) => ({
+        key,
+        value: toOtlpValue(value),
+      })),
+      links: span.links.map((link) => ({
+        traceId: toOtlpTraceId(link.traceId),
+        ...(link.spanId ? { spanId: link.spanId } : {}),
+        attributes: [
+          { key: "link.relation", value: { stringValue: link.relation } },
+        ],
+      })),
+      status: {
+        code: OtlpHttpJsonSpanExporter.STATUS_CODES[span.status],
+        ...(span.statusMessage ? { message: span.statusMessage } : {}),
+      },
+    };
+  }
+}
+
+const getServiceName = (): string =>
+  process.env.OTEL_SERVICE_NAME ??
+  process.env.AWS_LAMBDA_FUNCTION_NAME ??
+  "unknown_service";
+
+const toUnixNano = (epochMs: number): string =>
+  (BigInt(Math.round(epochMs)) * BigInt(1_000_000)).toString();
+
+/**
+ * OTLP requires 32 hex chars trace ids, other formats are hashed.
+ */
+const toOtlpTraceId = (traceId: string): string => {
+  const match = traceId.match(/^(?:1-)?([0-9a-f]{8})-?([0-9a-f]{24})$/i);
+  if (match) {
+    return `${match[1]}${match[2]}`.toLowerCase();
+  }
+  return crypto.createHash("md5").update(traceId).digest("hex");
+};
+
+const toOtlpValue = (value: SpanAttributeValue): OtlpAnyValue => {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+};
+
+/**
+ * Process-wide span processor that every ended span is sent to.
+ *
+ * Configured explicitly with `SpanExporters.configure(...)`, or lazily from env:
+ * - `TRACE_EXPORTER`: `otlp` | `stdout` | `none` (default `none`)
+ * - `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`: OTLP/HTTP traces endpoint for `otlp`
+ */
+export class SpanExporters {
+  private static processor: BatchSpanProcessor | undefined;
+  private static initialised = false;
+
+  static configure(
+    config: { exporter: SpanExporter } & BatchSpanProcessorOptions,
+  ): BatchSpanProcessor {
+    const { exporter, ...options } = config;
+    this.processor = new BatchSpanProcessor(exporter, options);
+    this.initialised = true;
+    return this.processor;
+  }
+
+  /**
+   * Stop exporting spans
+   */
+  static disable(): void {
+    this.processor = undefined;
+    this.initialised = true;
+  }
+
+  static onEnd(span: Span): void {
+    this.getProcessor()?.onEnd(span);
+  }
+
+  /**
+   * Export all buffered spans, called by the traced handlers before returning
+   */
+  static async flush(): Promise<void> {
+    await this.getProcessor()?.forceFlush();
+  }
+
+  private static getProcessor(): BatchSpanProcessor | undefined {
+    if (!this.initialised) {
+      this.initialised = true;
+      const exporter = this.createExporterFromEnv();
+      this.processor = exporter ? new BatchSpanProcessor(exporter) : undefined;
+    }
+    return this.processor;
+  }
+
+  private static createExporterFromEnv(): SpanExporter | undefined {
+    switch (process.env.TRACE_EXPORTER) {
+      case "stdout":
+        return new StdoutSpanExporter();
+      case "otlp": {
+        const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+        if (!endpoint) {
+          console.warn(
+            "[SpanExporters] TRACE_EXPORTER=otlp requires OTEL_EXPORTER_OTLP_TRACES_ENDPOINT",
+          );
+          return undefined;
+        }
+        return new OtlpHttpJsonSpanExporter({ endpoint });
+      }
+      default:
+        return undefined;
+    }
+  }
+}
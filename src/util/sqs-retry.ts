@@ -0,0 +1,268 @@
+import type { Context, SQSRecord } from "aws-lambda";
+import { z } from "zod";
+import {
+  SqsMessageAttributeValue,
+  TraceId,
+  TracingContext,
+} from "./tracing-utils";
+import { HttpError } from "./http-errors";
+import { Middleware } from "./middleware-pipeline";
+import { TimeoutWarning } from "./timeout-warning";
+
+/**
+ * `transient` errors are retried, `permanent` ones sent to the poison queue,
+ * `unknown` ones fail the record (redelivered by SQS)
+ */
+export type ErrorClassification = "transient" | "permanent" | "unknown";
+
+export type ErrorClassifier = (error: unknown) => ErrorClassification;
+
+export type SqsRetryOptions = {
+  /** Attempts per record, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base of the exponential backoff (default: 100) */
+  baseDelayMs?: number;
+  /** Upper bound of a single delay (default: 2000) */
+  maxDelayMs?: number;
+};
+
+/**
+ * SendMessage input (@aws-sdk/client-sqs SendMessageRequest)
+ */
+export type SendSqsMessageInput = {
+  QueueUrl: string;
+  MessageBody: string;
+  MessageAttributes: Record<string, SqsMessageAttributeValue>;
+  MessageGroupId?: string;
+  MessageDeduplicationId?: string;
+};
+
+export type PoisonQueueOptions = {
+  /** DLQ or parking-lot queue */
+  queueUrl: string;
+  /** Send the message, e.g. `(input) => sqsClient.send(new SendMessageCommand(input))` */
+  send: (input: SendSqsMessageInput) => Promise<unknown>;
+  /** Also forward records received this many times, whatever the error */
+  maxReceiveCount?: number;
+};
+
+const TRANSIENT_ERROR_NAMES = new Set([
+  "ThrottlingException",
+  "Throttling",
+  "TooManyRequestsException",
+  "ProvisionedThroughputExceededException",
+  "RequestLimitExceeded",
+  "ServiceUnavailable",
+  "InternalFailure",
+  "InternalServerError",
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeoutException",
+]);
+
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+// SQS allows at most 10 message attributes per message
+const MAX_MESSAGE_ATTRIBUTES = 10;
+const MAX_ERROR_MESSAGE_LENGTH = 256;
+
+// poison message attributes kept first when they do not all fit, then the other
+// trace attributes, then the original ones
+const POISON_ATTRIBUTE_PRIORITY = [
+  "trace-id",
+  "error-type",
+  "traceparent",
+  "error-message",
+  "approximate-receive-count",
+  "source-message-id",
+  "source-queue-arn",
+];
+
+/**
+ * Default classification:
+ * - transient: throttling, AWS 5xx and `$retryable` errors, network errors, HttpError 429/5xx
+ * - permanent: invalid input (HttpError 4xx, ValidationError, zod errors, JSON syntax errors)
+ * - unknown: anything else
+ */
+export const classifyError: ErrorClassifier = (error) => {
+  if (error instanceof HttpError) {
+    return error.statusCode === 429 || error.statusCode >= 500
+      ? "transient"
+      : "permanent";
+  }
+  if (error instanceof SyntaxError || error instanceof z.ZodError) {
+    return "permanent";
+  }
+  if (!error || typeof error !== "object") {
+    return "unknown";
+  }
+  const { name, code, $retryable, $metadata } = error as {
+    name?: string;
+    code?: string;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+  if (
+    $retryable ||
+    TRANSIENT_ERROR_NAMES.has(name ?? "") ||
+    TRANSIENT_ERROR_CODES.has(code ?? "") ||
+    ($metadata?.httpStatusCode ?? 0) >= 500
+  ) {
+    return "transient";
+  }
+  return "unknown";
+};
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Call `fn` until it succeeds, retrying transient errors with exponential backoff and
+ * full jitter. Gives up (rethrows) on other errors, after `maxAttempts`, or when the
+ * delay would run into the TimeoutWarning margin.
+ */
+export const withRetries = async <T>(
+  fn: () => Promise<T>,
+  options: SqsRetryOptions & { classify?: ErrorClassifier; context?: Context },
+): Promise<T> => {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 100;
+  const maxDelayMs = options.maxDelayMs ?? 2000;
+  const classify = options.classify ?? classifyError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= maxAttempts || classify(err) !== "transient") {
+        throw err;
+      }
+      const delayMs =
+        Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const timeLeft = TimeoutWarning.getTimeLeft(options.context);
+      if (timeLeft !== undefined && timeLeft <= delayMs) {
+        throw err;
+      }
+      console.warn(
+        `[SqsRetry] Attempt ${attempt} failed with a transient error, retrying in ${Math.round(delayMs)}ms:`,
+        String(err),
+      );
+      TracingContext.setSpanAttributes({ "messaging.retry_count": attempt });
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Copy of the record for the poison queue: original body, the current trace
+ * (`trace-id`, `traceparent`, ...), the error and `approximate-receive-count` attributes,
+ * then the original attributes while there is room. At most 10 attributes are kept
+ * (SQS rejects more), `trace-id` and `error-type` first.
+ */
+export const toPoisonMessage = (
+  record: SQSRecord,
+  error: unknown,
+  queueUrl: string,
+): SendSqsMessageInput => {
+  const candidates: Record<string, SqsMessageAttributeValue> = {};
+  const setCandidate = (name: string, value: string | undefined): void => {
+    if (value && !(name in candidates)) {
+      candidates[name] = { DataType: "String", StringValue: value };
+    }
+  };
+  setCandidate(
+    "error-type",
+    error instanceof Error ? error.name : typeof error,
+  );
+  setCandidate(
+    "error-message",
+    (error instanceof Error ? error.message : String(error)).slice(
+      0,
+      MAX_ERROR_MESSAGE_LENGTH,
+    ),
+  );
+  setCandidate(
+    "approximate-receive-count",
+    record.attributes.ApproximateReceiveCount,
+  );
+  setCandidate("source-queue-arn", record.eventSourceARN);
+  setCandidate("source-message-id", record.messageId);
+  Object.assign(candidates, TraceId.toSqsMessageAttributes());
+  for (const [name, value] of Object.entries(record.messageAttributes)) {
+    setCandidate(name, value.stringValue);
+  }
+
+  // candidates keep their insertion order after the prioritized names
+  const names = [
+    ...POISON_ATTRIBUTE_PRIORITY.filter((name) => name in candidates),
+    ...Object.keys(candidates).filter(
+      (name) => !POISON_ATTRIBUTE_PRIORITY.includes(name),
+    ),
+  ];
+  const attributes = Object.fromEntries(
+    names
+      .slice(0, MAX_MESSAGE_ATTRIBUTES)
+      .map((name) => [name, candidates[name]]),
+  );
+
+  const fifo = queueUrl.endsWith(".fifo");
+  return {
+    QueueUrl: queueUrl,
+    MessageBody: record.body,
+    MessageAttributes: attributes,
+    ...(fifo
+      ? {
+          MessageGroupId:
+            record.attributes.MessageGroupId ?? record.messageId,
+          MessageDeduplicationId: record.messageId,
+        }
+      : {}),
+  };
+};
+
+/**
+ * Forward records that failed with a permanent error (or were received
+ * `maxReceiveCount` times) to the poison queue. The record then counts as processed;
+ * if forwarding fails, the record fails and SQS redelivers it.
+ */
+export const poisonQueueMiddleware = (
+  options: PoisonQueueOptions & { classify?: ErrorClassifier },
+): Middleware<SQSRecord> => ({
+  name: "poisonQueue",
+  onError: async (request) => {
+    const { error, event: record } = request;
+    if (error === undefined) {
+      return;
+    }
+    const classify = options.classify ?? classifyError;
+    const permanent = classify(error) === "permanent";
+    const exhausted =
+      options.maxReceiveCount !== undefined &&
+      Number(record.attributes.ApproximateReceiveCount) >=
+        options.maxReceiveCount;
+    if (!permanent && !exhausted) {
+      return;
+    }
+    try {
+      await options.send(toPoisonMessage(record, error, options.queueUrl));
+    } catch (err) {
+      console.error(
+        `[SqsPoisonQueue] Could not forward message ${record.messageId}`,
+        err,
+      );
+      return;
+    }
+    console.warn(
+      `[SqsPoisonQueue] Message ${record.messageId} forwarded to ${options.queueUrl}:`,
+      String(error),
+    );
+    TracingContext.setSpanAttributes({ "messaging.poison_queue": true });
+    request.error = undefined;
+  },
+});
@@ -0,0 +1,112 @@
+import type { Context } from "aws-lambda";
+import { logger } from "./logger-demo";
+import { SpanExporters } from "./span-exporters";
+import { TracingContext } from "./tracing-utils";
+
+/**
+ * Resolves when the invocation gets within the margin of its timeout
+ */
+export type TimeoutDeadline = {
+  promise: Promise<void>;
+  cancel: () => void;
+  /** Resolve now, ahead of the timer */
+  expire: () => void;
+};
+
+/**
+ * Early warning before the Lambda timeout, so the last log lines and spans are not lost
+ * when the runtime kills the invocation.
+ *
+ * The margin before the deadline is configured with `TimeoutWarning.configure(...)` or the
+ * `TIMEOUT_WARNING_MARGIN_MS` env var (default 1000).
+ */
+export class TimeoutWarning {
+  private static readonly ENV_VAR = "TIMEOUT_WARNING_MARGIN_MS";
+  private static readonly DEFAULT_MARGIN_MS = 1000;
+
+  private static marginMs: number | undefined;
+  // scheduled deadlines and their warning
+  private static scheduled = new Map<TimeoutDeadline, Promise<void>>();
+
+  static configure(options: { marginMs: number }): void {
+    this.marginMs = options.marginMs;
+  }
+
+  static getMarginMs(): number {
+    if (this.marginMs === undefined) {
+      const fromEnv = Number(process.env[this.ENV_VAR]);
+      this.marginMs = fromEnv >= 0 ? fromEnv : this.DEFAULT_MARGIN_MS;
+    }
+    return this.marginMs;
+  }
+
+  /**
+   * Time left before the warning, undefined without a Lambda context
+   */
+  static getTimeLeft(context?: Context): number | undefined {
+    return context
+      ? context.getRemainingTimeInMillis() - this.getMarginMs()
+      : undefined;
+  }
+
+  /**
+   * Deadline of the invocation minus the margin. Never resolves without a Lambda context.
+   */
+  static deadline(context?: Context): TimeoutDeadline {
+    const timeLeft = this.getTimeLeft(context);
+    let timer: NodeJS.Timeout | undefined;
+    let expire = (): void => undefined;
+    const promise = new Promise<void>((resolve) => {
+      expire = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      if (timeLeft !== undefined) {
+        timer = setTimeout(resolve, Math.max(timeLeft, 0));
+        // never keep the process alive for the warning alone
+        timer.unref();
+      }
+    });
+    return { promise, cancel: () => clearTimeout(timer), expire };
+  }
+
+  /**
+   * Log a warning with the current trace and span when the deadline is reached, then
+   * flush spans and logs. Call inside the tracing context; returns the cancel function.
+   */
+  static schedule(context?: Context): () => void {
+    const deadline = this.deadline(context);
+    const warned = deadline.promise.then(async () => {
+      const remainingMs = context?.getRemainingTimeInMillis();
+      TracingContext.setSpanAttributes({ "faas.timeout_warning": true });
+      logger.warn({
+        message: "Lambda timeout approaching",
+        data: {
+          remainingMs,
+          traceId: TracingContext.getTraceId(),
+          spanId: TracingContext.getSpanId(),
+        },
+      });
+      await SpanExporters.flush();
+      await logger.flush();
+    });
+    this.scheduled.set(deadline, warned);
+    return () => {
+      this.scheduled.delete(deadline);
+      deadline.cancel();
+    };
+  }
+
+  /**
+   * Fire the scheduled warnings now, e.g. when a batch handler gives up on the records
+   * still running so they log their warning before the invocation returns.
+   */
+  static async expireAll(): Promise<void> {
+    const warnings = [...this.scheduled.values()];
+    for (const deadline of this.scheduled.keys()) {
+      deadline.expire();
+    }
+    this.scheduled.clear();
+    await Promise.all(warnings);
+  }
+}
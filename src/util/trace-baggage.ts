@@ -0,0 +1,120 @@
+/**
+ * Business correlation keys carried alongside the trace id (W3C Baggage format,
+ * https://www.w3.org/TR/baggage/), e.g. `tenant=tvnz,contentId=123,integration=quickplay`.
+ */
+export type BaggageEntries = Record<string, string>;
+
+type BaggageOptions = {
+  /** Keys accepted on extraction and injection, anything else is dropped */
+  allowedKeys: string[];
+  /** Max number of entries */
+  maxEntries: number;
+  /** Max length of a single value, longer values are dropped */
+  maxValueLength: number;
+  /** Max length of the serialized header */
+  maxBytes: number;
+};
+
+/**
+ * Parse, limit and serialize baggage.
+ *
+ * The allow-list defaults to `tenant,contentId,integration` and can be overridden with the
+ * `BAGGAGE_ALLOWED_KEYS` env var (comma separated) or `Baggage.configure(...)`.
+ */
+export class Baggage {
+  static readonly HEADER = "baggage";
+  private static readonly ENV_VAR = "BAGGAGE_ALLOWED_KEYS";
+  private static readonly KEY_REGEX = /^[A-Za-z0-9!#$%&'*+\-.^_`|~]+$/;
+
+  private static options: BaggageOptions | undefined;
+
+  static configure(options: Partial<BaggageOptions>): void {
+    this.options = { ...this.getOptions(), ...options };
+  }
+
+  /**
+   * Parse a W3C baggage header, ignoring member properties and malformed members
+   */
+  static parse(header?: string | null): BaggageEntries {
+    if (!header) {
+      return {};
+    }
+    const entries: BaggageEntries = {};
+    for (const member of header.split(",")) {
+      const [keyValue] = member.split(";");
+      const separator = keyValue.indexOf("=");
+      if (separator <= 0) {
+        continue;
+      }
+      const key = keyValue.slice(0, separator).trim();
+      try {
+        entries[key] = decodeURIComponent(
+          keyValue.slice(separator + 1).trim(),
+        );
+      } catch {
+        // malformed percent-encoding
+      }
+    }
+    return this.limit(entries);
+  }
+
+  /**
+   * Serialize entries to a W3C baggage header, empty string when nothing is left after limits
+   */
+  static serialize(entries?: BaggageEntries): string {
+    const { maxBytes } = this.getOptions();
+    let header = "";
+    for (const [key, value] of Object.entries(this.limit(entries ?? {}))) {
+      const member = `${key}=${encodeURIComponent(value)}`;
+      const next = header ? `${header},${member}` : member;
+      if (Buffer.byteLength(next) > maxBytes) {
+        break;
+      }
+      header = next;
+    }
+    return header;
+  }
+
+  /**
+   * Apply the allow-list and size limits
+   */
+  static limit(entries: BaggageEntries): BaggageEntries {
+    const { allowedKeys, maxEntries, maxValueLength } = this.getOptions();
+    const limited: BaggageEntries = {};
+    let count = 0;
+    for (const [key, value] of Object.entries(entries)) {
+      if (count >= maxEntries) {
+        break;
+      }
+      if (
+        !allowedKeys.includes(key) ||
+        !this.KEY_REGEX.test(key) ||
+        typeof value !== "string" ||
+        value.length > maxValueLength
+      ) {
+        continue;
+      }
+      limited[key] = value;
+      count++;
+    }
+    return limited;
+  }
+
+  private static getOptions(): BaggageOptions {
+    if (!this.options) {
+      const fromEnv = process.env[this.ENV_VAR]
+        ?.split(",")
+        .map((key) => key.trim())
+        .filter(Boolean);
+      this.options = {
+        allowedKeys: fromEnv?.length
+          ? fromEnv
+          : ["tenant", "contentId", "integration"],
+        maxEntries: 16,
+        maxValueLength: 256,
+        maxBytes: 2048,
+      };
+    }
+    return this.options;
+  }
+}
@@ -0,0 +1,86 @@
+export type TraceIdFormat = "hex32" | "xray" | "uuid" | "ulid";
+
+/**
+ * What to do with an inbound trace id that fails validation:
+ * - `reject`: ignore it and fall back to the next propagator (X-Ray, then a new id)
+ * - `regenerate`: start a new trace
+ * - `link`: start a new trace that keeps a (sanitized) reference to the rejected id
+ */
+export type TraceIdPolicyAction = "reject" | "regenerate" | "link";
+
+type TraceIdPolicyOptions = {
+  formats: TraceIdFormat[];
+  maxLength: number;
+  action: TraceIdPolicyAction;
+};
+
+/**
+ * Validation policy for trace ids received from callers (headers, event detail,
+ * message attributes).
+ *
+ * Configured with `TraceIdPolicy.configure(...)` or from env:
+ * - `TRACE_ID_FORMATS`: comma separated formats (default `hex32,xray,uuid,ulid`)
+ * - `TRACE_ID_MAX_LENGTH`: default 64
+ * - `TRACE_ID_POLICY_ACTION`: `reject` | `regenerate` | `link` (default `reject`)
+ *
+ * Note ids extracted from X-Ray, W3C and B3 are normalized to `hex32`.
+ */
+export class TraceIdPolicy {
+  private static readonly FORMATS: Record<TraceIdFormat, RegExp> = {
+    hex32: /^[0-9a-f]{32}$/i,
+    xray: /^1-[0-9a-f]{8}-[0-9a-f]{24}$/i,
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    ulid: /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i,
+  };
+  private static readonly ACTIONS: TraceIdPolicyAction[] = [
+    "reject",
+    "regenerate",
+    "link",
+  ];
+  // sanitized values are bounded regardless of the configured max length
+  private static readonly SANITIZED_MAX_LENGTH = 128;
+
+  private static options: TraceIdPolicyOptions | undefined;
+
+  static configure(options: Partial<TraceIdPolicyOptions>): void {
+    this.options = { ...this.getOptions(), ...options };
+  }
+
+  static getAction(): TraceIdPolicyAction {
+    return this.getOptions().action;
+  }
+
+  static isValid(traceId: string): boolean {
+    const { formats, maxLength } = this.getOptions();
+    return (
+      traceId.length <= maxLength &&
+      formats.some((format) => this.FORMATS[format].test(traceId))
+    );
+  }
+
+  /**
+   * Printable, bounded version of an untrusted value, safe to put in log lines
+   */
+  static sanitize(value: string): string {
+    const printable = value.replace(/[^\x21-\x7e]/g, "?");
+    return printable.length > this.SANITIZED_MAX_LENGTH
+      ? `${printable.slice(0, this.SANITIZED_MAX_LENGTH)}...`
+      : printable;
+  }
+
+  private static getOptions(): TraceIdPolicyOptions {
+    if (!this.options) {
+      const formats = process.env.TRACE_ID_FORMATS?.split(",")
+        .map((format) => format.trim())
+        .filter((format): format is TraceIdFormat => format in this.FORMATS);
+      const maxLength = Number(process.env.TRACE_ID_MAX_LENGTH);
+      const action = process.env.TRACE_ID_POLICY_ACTION as TraceIdPolicyAction;
+      this.options = {
+        formats: formats?.length ? formats : ["hex32", "xray", "uuid", "ulid"],
+        maxLength: maxLength > 0 ? maxLength : 64,
+        action: this.ACTIONS.includes(action) ? action : "reject",
+      };
+    }
+    return this.options;
+  }
+}
@@ -0,0 +1,547 @@
+import type { SNSMessageAttributes, SQSMessageAttributes } from "aws-lambda";
+import {
+  SqsMessageAttributeValue,
+  TraceContext,
+  TracedEvent,
+  TraceId,
+  TraceLink,
+  TracingContext,
+} from "./tracing-utils";
+import { Baggage } from "./trace-baggage";
+import { TraceIdPolicy } from "./trace-id-policy";
+
+/**
+ * Header names used by the built-in propagators.
+ * Carriers map these keys onto their own fields (e.g. `X-Trace-Id` -> `detail.traceId`).
+ */
+export const TraceHeaders = {
+  TRACE_ID: "X-Trace-Id",
+  TRACE_SAMPLED: "X-Trace-Sampled",
+  TRACEPARENT: "traceparent",
+  TRACESTATE: "tracestate",
+  B3: "b3",
+  B3_TRACE_ID: "X-B3-TraceId",
+  B3_SPAN_ID: "X-B3-SpanId",
+  B3_SAMPLED: "X-B3-Sampled",
+} as const;
+
+/**
+ * Read/write access to wherever trace headers travel: HTTP headers, event detail,
+ * message attributes.
+ */
+export type TraceCarrier = {
+  get: (key: string) => string | undefined;
+  set?: (key: string, value: string) => void;
+};
+
+/**
+ * A propagator reads a trace context from a carrier and writes one back into a carrier.
+ * `extract` returns undefined when the carrier holds nothing this propagator understands.
+ */
+export interface TracePropagator {
+  readonly name: string;
+  extract(carrier: TraceCarrier): TraceContext | undefined;
+  inject(ctx: TraceContext, carrier: TraceCarrier): void;
+}
+
+/**
+ * Ordered list of propagators, by registered name or instance.
+ */
+export type PropagatorConfig = ReadonlyArray<string | TracePropagator>;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value !== "" ? value : undefined;
+
+// Event fields and SQS message attributes used for our own headers
+const EVENT_FIELDS: Record<string, string> = {
+  [TraceHeaders.TRACE_ID.toLowerCase()]: "traceId",
+  [TraceHeaders.TRACE_SAMPLED.toLowerCase()]: "traceSampled",
+};
+const SQS_ATTRIBUTES: Record<string, string> = {
+  [TraceHeaders.TRACE_ID.toLowerCase()]: "trace-id",
+  [TraceHeaders.TRACE_SAMPLED.toLowerCase()]: "trace-sampled",
+};
+
+const toEventField = (key: string): string =>
+  EVENT_FIELDS[key.toLowerCase()] ?? key.toLowerCase();
+
+const findCaseInsensitive = <T>(
+  record: Record<string, T> | null | undefined,
+  key: string,
+): T | undefined => {
+  if (!record) {
+    return undefined;
+  }
+  const target = key.toLowerCase();
+  for (const name in record) {
+    if (name.toLowerCase() === target) {
+      return record[name];
+    }
+  }
+  return undefined;
+};
+
+export const TraceCarriers = {
+  /**
+   * HTTP headers carrier, case-insensitive on read.
+   */
+  fromHeaders: (
+    headers?: Record<string, string | undefined> | null,
+  ): TraceCarrier => ({
+    get: (key) => asString(findCaseInsensitive(headers, key)),
+    set: headers
+      ? (key, value) => {
+          headers[key] = value;
+        }
+      : undefined,
+  }),
+
+  /**
+   * Traced event carrier. `X-Trace-Id`/`X-Trace-Sampled` map onto the `traceId`/`traceSampled`
+   * fields, other keys onto a lower-cased field of the same name.
+   * Top-level fields win over `detail` fields.
+   */
+  fromTracedEvent: (tracedEvent: TracedEvent): TraceCarrier => ({
+    get: (key) => {
+      const field = toEventField(key);
+      const value = tracedEvent[field] ?? tracedEvent.detail?.[field];
+      // baggage may be sent as an object
+      if (field === Baggage.HEADER && value && typeof value === "object") {
+        return Baggage.serialize(value) || undefined;
+      }
+      return (
+        asString(tracedEvent[field]) ?? asString(tracedEvent.detail?.[field])
+      );
+    },
+    set: (key, value) => {
+      tracedEvent[toEventField(key)] = value;
+    },
+  }),
+
+  /**
+   * SQS record message attributes carrier (read only). `X-Trace-Id`/`X-Trace-Sampled` map
+   * onto the `trace-id`/`trace-sampled` attributes.
+   */
+  fromSqsMessageAttributes: (
+    attributes?: SQSMessageAttributes | null,
+  ): TraceCarrier => ({
+    get: (key) =>
+      asString(
+        findCaseInsensitive(
+          attributes,
+          SQS_ATTRIBUTES[key.toLowerCase()] ?? key,
+        )?.stringValue,
+      ),
+  }),
+
+  /**
+   * SNS message attributes carrier (read only), same attribute names as
+   * `fromSqsMessageAttributes`. Also fits the `MessageAttributes` of an SNS envelope
+   * delivered to SQS without raw message delivery.
+   */
+  fromSnsMessageAttributes: (
+    attributes?: SNSMessageAttributes | null,
+  ): TraceCarrier => ({
+    get: (key) =>
+      asString(
+        findCaseInsensitive(
+          attributes,
+          SQS_ATTRIBUTES[key.toLowerCase()] ?? key,
+        )?.Value,
+      ),
+  }),
+
+  /**
+   * SendMessage message attributes carrier (write only), same attribute names as
+   * `fromSqsMessageAttributes`.
+   */
+  toSqsMessageAttributes: (
+    attributes: Record<string, SqsMessageAttributeValue>,
+  ): TraceCarrier => ({
+    get: () => undefined,
+    set: (key, value) => {
+      attributes[SQS_ATTRIBUTES[key.toLowerCase()] ?? key] = {
+        DataType: "String",
+        StringValue: value,
+      };
+    },
+  }),
+
+  /**
+   * Combine carriers: reads from the first carrier holding the key, writes to the first
+   * writable carrier.
+   */
+  merge: (...carriers: TraceCarrier[]): TraceCarrier => {
+    const writable = carriers.find((carrier) => carrier.set);
+    return {
+      get: (key) => {
+        for (const carrier of carriers) {
+          const value = carrier.get(key);
+          if (value !== undefined) {
+            return value;
+          }
+        }
+        return undefined;
+      },
+      set: writable?.set,
+    };
+  },
+};
+
+/**
+ * Custom `X-Trace-Id` header (`traceId` field in events), with the sampling decision
+ * in `X-Trace-Sampled` (`1`/`0`, `traceSampled` field in events)
+ */
+export class XTraceIdPropagator implements TracePropagator {
+  readonly name = "x-trace-id";
+
+  extract(carrier: TraceCarrier): TraceContext | undefined {
+    const traceId = carrier.get(TraceHeaders.TRACE_ID);
+    if (!traceId) {
+      return undefined;
+    }
+    const sampled = carrier.get(TraceHeaders.TRACE_SAMPLED);
+    return {
+      traceId,
+      traceFlags:
+        sampled === "1" ? "01" : sampled === "0" ? "00" : undefined,
+    };
+  }
+
+  inject(ctx: TraceContext, carrier: TraceCarrier): void {
+    carrier.set?.(TraceHeaders.TRACE_ID, ctx.traceId);
+    if (ctx.traceFlags) {
+      carrier.set?.(
+        TraceHeaders.TRACE_SAMPLED,
+        TraceId.isSampledFlags(ctx.traceFlags) ? "1" : "0",
+      );
+    }
+  }
+}
+
+/**
+ * W3C Trace Context `traceparent`/`tracestate`
+ */
+export class W3CTraceContextPropagator implements TracePropagator {
+  readonly name = "w3c";
+
+  extract(carrier: TraceCarrier): TraceContext | undefined {
+    const traceparent = TraceId.parseTraceparent(
+      carrier.get(TraceHeaders.TRACEPARENT),
+    );
+    if (!traceparent) {
+      return undefined;
+    }
+    return {
+      traceId: traceparent.traceId,
+      parentSpanId: traceparent.parentId,
+      traceFlags: traceparent.traceFlags,
+      traceState: carrier.get(TraceHeaders.TRACESTATE),
+    };
+  }
+
+  inject(ctx: TraceContext, carrier: TraceCarrier): void {
+    const traceparent = TraceId.toTraceparent(
+      ctx.traceId,
+      ctx.spanId,
+      ctx.traceFlags,
+    );
+    if (!traceparent) {
+      return;
+    }
+    carrier.set?.(TraceHeaders.TRACEPARENT, traceparent);
+    if (ctx.traceState) {
+      carrier.set?.(TraceHeaders.TRACESTATE, ctx.traceState);
+    }
+  }
+}
+
+/**
+ * AWS X-Ray root trace id from the Lambda environment or the active segment.
+ * The carrier is ignored: X-Ray context is provided by the runtime, not the caller.
+ * Injection is left to the X-Ray SDK (see XrayService.wrapClientWithXRay).
+ */
+export class XRayPropagator implements TracePropagator {
+  readonly name = "xray";
+
+  extract(_carrier: TraceCarrier): TraceContext | undefined {
+    // only returned for Sampled=1 traces
+    const traceId = TraceId.getXRayRootTraceId();
+    return traceId ? { traceId, traceFlags: "01" } : undefined;
+  }
+
+  inject(_ctx: TraceContext, _carrier: TraceCarrier): void {
+    // no-op
+  }
+}
+
+/**
+ * Zipkin B3, single (`b3`) and multi (`X-B3-*`) header formats.
+ * 64-bit trace ids are left-padded to 128 bit. Injects the single header format.
+ */
+export class B3Propagator implements TracePropagator {
+  readonly name = "b3";
+
+  private static readonly TRACE_ID_REGEX = /^([0-9a-f]{16}|[0-9a-f]{32})$/i;
+  private static readonly SPAN_ID_REGEX = /^[0-9a-f]{16}$/i;
+
+  extract(carrier: TraceCarrier): TraceContext | undefined {
+    const single = carrier.get(TraceHeaders.B3);
+    const [traceId, spanId, sampled] = single
+      ? single.split("-")
+      : [
+          carrier.get(TraceHeaders.B3_TRACE_ID),
+          carrier.get(TraceHeaders.B3_SPAN_ID),
+          carrier.get(TraceHeaders.B3_SAMPLED),
+        ];
+
+    if (!traceId || !B3Propagator.TRACE_ID_REGEX.test(traceId)) {
+      return undefined;
+    }
+
+    return {
+      traceId: traceId.toLowerCase().padStart(32, "0"),
+      parentSpanId:
+        spanId && B3Propagator.SPAN_ID_REGEX.test(spanId)
+          ? spanId.toLowerCase()
+          : undefined,
+      traceFlags: sampled === "0" || sampled === "false" ? "00" : "01",
+    };
+  }
+
+  inject(ctx: TraceContext, carrier: TraceCarrier): void {
+    const traceId = TraceId.toW3CTraceId(ctx.traceId);
+    if (!traceId) {
+      return;
+    }
+    const spanId =
+      ctx.spanId && B3Propagator.SPAN_ID_REGEX.test(ctx.spanId)
+        ? ctx.spanId.toLowerCase()
+        : TraceId.generateSpanId();
+    const sampled = ctx.traceFlags === "00" ? "0" : "1";
+    carrier.set?.(TraceHeaders.B3, `${traceId}-${spanId}-${sampled}`);
+  }
+}
+
+/**
+ * Registry of named propagators and the configured extraction/injection order.
+ *
+ * Order resolution: explicit config (handler/client options) -> `TRACE_PROPAGATORS`
+ * env var (comma separated names) -> default `x-trace-id,w3c,xray`.
+ *
+ * Sample usage:
+ * TracePropagators.register(new MyPartnerPropagator());
+ * export const handler = tracedApiGatewayHandler(fn, { propagators: ["my-partner", "xray"] });
+ */
+export class TracePropagators {
+  private static readonly ENV_VAR = "TRACE_PROPAGATORS";
+  private static readonly DEFAULT_ORDER = ["x-trace-id", "w3c", "xray"];
+
+  private static registry = new Map<string, TracePropagator>(
+    [
+      new XTraceIdPropagator(),
+      new W3CTraceContextPropagator(),
+      new XRayPropagator(),
+      new B3Propagator(),
+    ].map((propagator) => [propagator.name, propagator]),
+  );
+
+  /**
+   * Register (or replace) a propagator under its name
+   */
+  static register(propagator: TracePropagator): void {
+    this.registry.set(propagator.name, propagator);
+  }
+
+  static get(name: string): TracePropagator | undefined {
+    return this.registry.get(name);
+  }
+
+  /**
+   * Resolve a config into propagator instances. Unknown names are skipped with a warning.
+   */
+  static resolve(config?: PropagatorConfig): TracePropagator[] {
+    const order = config ?? this.getConfiguredOrder();
+    return order.flatMap((entry) => {
+      if (typeof entry !== "string") {
+        return [entry];
+      }
+      const propagator = this.registry.get(entry);
+      if (!propagator) {
+        console.warn(`[TracePropagators] Unknown propagator: ${entry}`);
+        return [];
+      }
+      return [propagator];
+    });
+  }
+
+  /**
+   * Extract a trace context from the carrier.
+   * The first propagator returning a trace id accepted by the TraceIdPolicy wins; later propagators carrying the same
+   * trace only fill in missing fields (parent span, flags, state). The `regenerate`/`link` policy actions only start
+   * a new trace when no valid context was extracted before the rejected id; otherwise the winner keeps a link to
+   * the rejected id (`link` action).
+   * X-Ray span id/env are always attached, a new trace id is generated as last resort.
+   * Baggage is extracted from the `baggage` key regardless of the propagators.
+   * Replaced inbound traces (X-Ray root, untrusted ids with the `link` policy) are kept as links.
+   */
+  static extract(
+    carrier: TraceCarrier,
+    config?: PropagatorConfig,
+  ): TraceContext {
+    const baggage = Baggage.parse(carrier.get(Baggage.HEADER));
+    const ctx = this.withXRayLink(this.extractTrace(carrier, config));
+    return Object.keys(baggage).length > 0 ? { ...ctx, baggage } : ctx;
+  }
+
+  /**
+   * Link to the X-Ray trace when the trace continues under another id
+   * (other propagator won, or a new id was generated)
+   */
+  private static withXRayLink(ctx: TraceContext): TraceContext {
+    const xrayRoot = TraceId.extractRootTraceId(ctx.xrayEnv);
+    if (!xrayRoot || xrayRoot === TraceId.toW3CTraceId(ctx.traceId)) {
+      return ctx;
+    }
+    return {
+      ...ctx,
+      links: [
+        ...(ctx.links ?? []),
+        { traceId: xrayRoot, spanId: ctx.spanId, relation: "continued_from_xray" },
+      ],
+    };
+  }
+
+  /**
+   * Extract a trace context carried by the carrier only: no X-Ray, no generated id.
+   * Returns undefined when the carrier holds no valid trace id.
+   */
+  static extractFromCarrier(
+    carrier: TraceCarrier,
+    config?: PropagatorConfig,
+  ): TraceContext | undefined {
+    for (const propagator of this.resolve(config)) {
+      if (propagator instanceof XRayPropagator) {
+        continue;
+      }
+      const ctx = propagator.extract(carrier);
+      if (ctx && TraceIdPolicy.isValid(ctx.traceId)) {
+        return ctx;
+      }
+    }
+    return undefined;
+  }
+
+  private static extractTrace(
+    carrier: TraceCarrier,
+    config?: PropagatorConfig,
+  ): TraceContext {
+    const xrayContext = TraceId.getXRayContext();
+    const extracted: Array<{ name: string; ctx: TraceContext }> = [];
+    let rejectedTraceId: string | undefined;
+    const untrustedLinks: TraceLink[] = [];
+
+    for (const propagator of this.resolve(config)) {
+      const ctx = propagator.extract(carrier);
+      if (!ctx) {
+        continue;
+      }
+      if (TraceIdPolicy.isValid(ctx.traceId)) {
+        extracted.push({ name: propagator.name, ctx });
+        continue;
+      }
+
+      const action = TraceIdPolicy.getAction();
+      console.warn(
+        `[TraceId] Invalid trace ID from ${propagator.name} propagator, action: ${action}`,
+        { rejectedTraceId: TraceIdPolicy.sanitize(ctx.traceId) },
+      );
+      rejectedTraceId ??= ctx.traceId;
+      if (action === "link") {
+        untrustedLinks.push({
+          traceId: TraceIdPolicy.sanitize(ctx.traceId),
+          spanId: ctx.parentSpanId,
+          relation: "untrusted_client_id",
+        });
+      }
+      // a valid context from an earlier propagator wins over the rejected id
+      if (extracted.length > 0) {
+        continue;
+      }
+      if (action === "regenerate") {
+        return { traceId: TraceId.generate(), ...xrayContext, rejectedTraceId };
+      }
+      if (action === "link") {
+        return {
+          traceId: TraceId.generate(),
+          ...xrayContext,
+          rejectedTraceId,
+          links: untrustedLinks,
+        };
+      }
+    }
+
+    const rejected = rejectedTraceId ? { rejectedTraceId } : {};
+    const [winner, ...others] = extracted;
+    if (!winner) {
+      return { traceId: TraceId.generate(), ...xrayContext, ...rejected };
+    }
+
+    console.log(
+      `[TraceId] Extracted trace ID using ${winner.name} propagator: ${winner.ctx.traceId}`,
+    );
+    const sameTrace = (ctx: TraceContext) =>
+      ctx.traceId === winner.ctx.traceId ||
+      (TraceId.toW3CTraceId(ctx.traceId) !== undefined &&
+        TraceId.toW3CTraceId(ctx.traceId) ===
+          TraceId.toW3CTraceId(winner.ctx.traceId));
+
+    const merged = others
+      .map(({ ctx }) => ctx)
+      .filter(sameTrace)
+      .reduce<TraceContext>(
+        (merged, ctx) => ({ ...ctx, ...this.defined(merged) }),
+        { ...xrayContext, ...this.defined(winner.ctx), ...rejected },
+      );
+    // untrusted ids rejected after the winner stay linked to it
+    return untrustedLinks.length > 0
+      ? { ...merged, links: [...(merged.links ?? []), ...untrustedLinks] }
+      : merged;
+  }
+
+  /**
+   * Inject the trace context (defaults to the current TracingContext) into the carrier
+   * with every configured propagator, plus its baggage.
+   */
+  static inject(
+    carrier: TraceCarrier,
+    ctx?: TraceContext,
+    config?: PropagatorConfig,
+  ): void {
+    const current = ctx ?? TracingContext.getTraceContext();
+    if (!current?.traceId) {
+      return;
+    }
+    for (const propagator of this.resolve(config)) {
+      propagator.inject(current, carrier);
+    }
+    const baggage = Baggage.serialize(current.baggage);
+    if (baggage) {
+      carrier.set?.(Baggage.HEADER, baggage);
+    }
+  }
+
+  private static getConfiguredOrder(): string[] {
+    const fromEnv = process.env[this.ENV_VAR]
+      ?.split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    return fromEnv?.length ? fromEnv : this.DEFAULT_ORDER;
+  }
+
+  private static defined(ctx: TraceContext): TraceContext {
+    return Object.fromEntries(
+      Object.entries(ctx).filter(([, value]) => value !== undefined),
+    ) as TraceContext;
+  }
+}
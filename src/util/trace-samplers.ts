@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import { Environment } from "../common/aws/env/Environment";
+import { RuntimeEnvironment } from "../common/aws/env/RuntimeEnvironment";
+import { TraceContext } from "./tracing-utils";
+
+/**
+ * What a sampler can base its decision on. Handlers fill in what they know.
+ */
+export type SamplingInput = {
+  traceId: string;
+  /** API Gateway resource path or raw path */
+  route?: string;
+  /** EventBridge `detail-type` */
+  detailType?: string;
+  /** SQS queue name */
+  queue?: string;
+  /** SNS topic name */
+  topic?: string;
+  /** DynamoDB table or Kinesis stream name */
+  stream?: string;
+  /** S3 bucket name */
+  bucket?: string;
+  environment?: Environment;
+};
+
+export interface Sampler {
+  readonly name: string;
+  shouldSample(input: SamplingInput): boolean;
+}
+
+export class AlwaysOnSampler implements Sampler {
+  readonly name = "always_on";
+
+  shouldSample(): boolean {
+    return true;
+  }
+}
+
+export class AlwaysOffSampler implements Sampler {
+  readonly name = "always_off";
+
+  shouldSample(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Sample a ratio of traces, deterministic on the trace id so every hop taking
+ * its own decision for the same trace agrees.
+ */
+export class TraceIdRatioSampler implements Sampler {
+  readonly name = "ratio";
+  private readonly ratio: number;
+
+  constructor(ratio: number) {
+    this.ratio = Number.isFinite(ratio) ? Math.min(Math.max(ratio, 0), 1) : 0;
+  }
+
+  shouldSample({ traceId }: SamplingInput): boolean {
+    if (this.ratio >= 1) {
+      return true;
+    }
+    const hash = crypto.createHash("md5").update(traceId).digest();
+    return hash.readUInt32BE(0) / 0xffffffff < this.ratio;
+  }
+}
+
+type Matcher<T extends string = string> = T | T[] | RegExp;
+
+/**
+ * All given conditions must match for the rule to apply.
+ */
+export type SamplingRule = {
+  route?: Matcher;
+  detailType?: Matcher;
+  queue?: Matcher;
+  topic?: Matcher;
+  stream?: Matcher;
+  bucket?: Matcher;
+  /** Matched against the `ENVIRONMENT` the Lambda was deployed with */
+  environment?: Matcher<Environment>;
+  /** Sampler or ratio to apply when the rule matches */
+  sample: Sampler | number;
+};
+
+const matches = (matcher: Matcher | undefined, value?: string): boolean => {
+  if (matcher === undefined) {
+    return true;
+  }
+  if (value === undefined) {
+    return false;
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(value);
+  }
+  return Array.isArray(matcher) ? matcher.includes(value) : matcher === value;
+};
+
+/**
+ * First matching rule decides, `fallback` (default always on) otherwise.
+ *
+ * Sample usage:
+ * new RuleBasedSampler([
+ *   { route: "/health", sample: 0 },
+ *   { environment: Environment.PROD, detailType: /^Content /, sample: 0.1 },
+ * ]);
+ */
+export class RuleBasedSampler implements Sampler {
+  readonly name = "rules";
+  private readonly rules: Array<SamplingRule & { sampler: Sampler }>;
+
+  constructor(
+    rules: SamplingRule[],
+    private readonly fallback: Sampler = new AlwaysOnSampler(),
+  ) {
+    this.rules = rules.map((rule) => ({
+      ...rule,
+      sampler:
+        typeof rule.sample === "number"
+          ? new TraceIdRatioSampler(rule.sample)
+          : rule.sample,
+    }));
+  }
+
+  shouldSample(input: SamplingInput): boolean {
+    const rule = this.rules.find(
+      (candidate) =>
+        matches(candidate.route, input.route) &&
+        matches(candidate.detailType, input.detailType) &&
+        matches(candidate.queue, input.queue) &&
+        matches(candidate.topic, input.topic) &&
+        matches(candidate.stream, input.stream) &&
+        matches(candidate.bucket, input.bucket) &&
+        matches(candidate.environment, input.environment),
+    );
+    return (rule?.sampler ?? this.fallback).shouldSample(input);
+  }
+}
+
+/**
+ * Process-wide sampler deciding whether a new trace records verbose spans and debug logs.
+ *
+ * Configured explicitly with `TraceSamplers.configure(...)`, per handler with the `sampler`
+ * option, or from env:
+ * - `TRACE_SAMPLER`: `always_on` | `always_off` | `ratio` (default `always_on`)
+ * - `TRACE_SAMPLER_ARG`: ratio between 0 and 1 for `ratio`
+ */
+export class TraceSamplers {
+  private static sampler: Sampler | undefined;
+
+  static configure(sampler: Sampler): void {
+    this.sampler = sampler;
+  }
+
+  static get(): Sampler {
+    if (!this.sampler) {
+      this.sampler = this.createSamplerFromEnv();
+    }
+    return this.sampler;
+  }
+
+  /**
+   * Attach a sampling decision to the extracted context.
+   * A decision that travelled with the trace (traceparent/X-Trace-Sampled flags) is kept,
+   * so every hop agrees; otherwise the sampler decides.
+   */
+  static sample(
+    ctx: TraceContext,
+    input: Omit<SamplingInput, "traceId">,
+    sampler?: Sampler,
+  ): TraceContext {
+    if (ctx.traceFlags) {
+      return ctx;
+    }
+    const sampled = (sampler ?? this.get()).shouldSample({
+      environment: RuntimeEnvironment.get(),
+      ...input,
+      traceId: ctx.traceId,
+    });
+    return { ...ctx, traceFlags: sampled ? "01" : "00" };
+  }
+
+  private static createSamplerFromEnv(): Sampler {
+    switch (process.env.TRACE_SAMPLER) {
+      case "always_off":
+        return new AlwaysOffSampler();
+      case "ratio":
+        return new TraceIdRatioSampler(Number(process.env.TRACE_SAMPLER_ARG));
+      default:
+        return new AlwaysOnSampler();
+    }
+  }
+}
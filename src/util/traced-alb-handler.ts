@@ -0,0 +1,80 @@
+import type { ALBEvent, ALBResult, Context } from "aws-lambda";
+import {
+  runTracedHttpRequest,
+  TracedHttpHandlerOptions,
+} from "./traced-api-gateway-handler";
+import { RequestSchemas, ValidatedHttpEvent } from "./request-validation";
+
+/**
+ * Headers of an ALB event. With multi-value headers enabled on the target group the
+ * event only has `multiValueHeaders`: the first value of each header is used.
+ */
+const getAlbHeaders = (
+  event: ALBEvent
+): Record<string, string | undefined> => {
+  if (event.multiValueHeaders) {
+    return Object.fromEntries(
+      Object.entries(event.multiValueHeaders).map(([name, values]) => [
+        name,
+        values?.[0],
+      ])
+    );
+  }
+  return event.headers ?? {};
+};
+
+/**
+ * Higher order function to wrap an ALB target Lambda handler with tracing context.
+ * Same extraction and response header rules as `tracedApiGatewayHandler`, reading the
+ * first value of multi-value headers. ALB events have no route or request ID: the root
+ * span and the problem responses use the path and the Lambda request ID.
+ * Response headers (including the ones of error responses) go to `multiValueHeaders`
+ * when the request used multi-value headers, as ALB then ignores `headers`.
+ */
+export const tracedAlbHandler = <
+  S extends RequestSchemas | undefined = undefined
+>(
+  handler: (
+    event: ValidatedHttpEvent<ALBEvent, S>,
+    context?: Context
+  ) => Promise<ALBResult>,
+  options?: TracedHttpHandlerOptions<ALBEvent, ALBResult, S>
+): ((event: ALBEvent, context?: Context) => Promise<ALBResult>) => {
+  return async (event: ALBEvent, context?: Context): Promise<ALBResult> => {
+    const { result, responseHeaders } = await runTracedHttpRequest(
+      event,
+      context,
+      {
+        headers: getAlbHeaders(event),
+        method: event.httpMethod,
+        route: event.path,
+        path: event.path,
+      },
+      handler,
+      options
+    );
+
+    if (event.multiValueHeaders) {
+      const { headers, ...rest } = result;
+      return {
+        ...rest,
+        multiValueHeaders: {
+          ...(result.multiValueHeaders ?? {}),
+          ...Object.fromEntries(
+            Object.entries({ ...headers, ...responseHeaders }).map(
+              ([name, value]) => [name, [value]]
+            )
+          ),
+        },
+      };
+    }
+
+    return {
+      ...result,
+      headers: {
+        ...(result.headers ?? {}),
+        ...responseHeaders,
+      },
+    };
+  };
+};
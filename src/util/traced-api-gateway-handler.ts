@@ -1,29 +1,178 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
 import { TraceId, TracingContext } from "./tracing-utils";
+import { PropagatorConfig } from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import {
+  errorResponseMiddleware,
+  requestValidationMiddleware,
+  tracingMiddleware,
+} from "./middlewares";
+import { HttpProblems } from "./http-errors";
+import { RequestSchemas, ValidatedHttpEvent } from "./request-validation";
+
+/**
+ * Options shared by the HTTP wrappers (API Gateway REST/HTTP API, ALB).
+ *
+ * `propagators` controls which inbound headers are trusted and in which order,
+ * `responsePropagators` which headers are written to the response.
+ * `sampler` decides for new traces (default: TraceSamplers), keyed on the route.
+ * `middlewares` run inside the tracing context, around the handler.
+ * `mapErrors` turns errors into problem+json responses (see HttpProblems), on by
+ * default; when false, errors are thrown to the Lambda runtime.
+ * `schemas` validates the request (see parseHttpRequest) before the handler and the
+ * custom middlewares, which get the parsed parts as `event.validated`; failures are
+ * 400 problem responses.
+ */
+export type TracedHttpHandlerOptions<
+  TEvent = any,
+  TResult = any,
+  S extends RequestSchemas | undefined = undefined
+> = {
+  propagators?: PropagatorConfig;
+  responsePropagators?: PropagatorConfig;
+  sampler?: Sampler;
+  middlewares?: Middleware<TEvent, TResult>[];
+  mapErrors?: boolean;
+  schemas?: S;
+};
+
+/**
+ * Run an HTTP request handler through the middleware chain, inside a tracing context
+ * and a root span for the request.
+ * Returns the handler result, or the problem response of the error, and the headers
+ * to add to the response (trace and CORS headers).
+ * Spans are flushed before returning, as the runtime may freeze afterwards.
+ */
+export const runTracedHttpRequest = async <
+  TEvent,
+  R,
+  S extends RequestSchemas | undefined = undefined
+>(
+  event: TEvent,
+  context: Context | undefined,
+  request: {
+    headers?: Record<string, string | undefined> | null;
+    method: string;
+    route: string;
+    path?: string;
+    requestId?: string;
+  },
+  handler: (
+    event: ValidatedHttpEvent<TEvent, S>,
+    context?: Context
+  ) => Promise<R>,
+  options?: TracedHttpHandlerOptions<TEvent, R, S>
+): Promise<{ result: R; responseHeaders: Record<string, string> }> => {
+  let traceHeaders: Record<string, string> = {};
+  const result = await runWithMiddlewares<TEvent, R>(
+    [
+      tracingMiddleware({
+        extract: () =>
+          TraceSamplers.sample(
+            TraceId.fromAPIGatewayEvent(request, options?.propagators),
+            { route: request.route },
+            options?.sampler
+          ),
+        spanName: `${request.method} ${request.route}`,
+        attributes: () => ({
+          "http.method": request.method,
+          "http.route": request.route,
+        }),
+      }),
+      {
+        name: "traceResponseHeaders",
+        // inside the root span, also when an error middleware produced the response
+        wrap: async (_request, next) => {
+          try {
+            await next();
+          } finally {
+            traceHeaders = TraceId.toHttpHeaders(
+              TracingContext.getTraceId(),
+              options?.responsePropagators
+            );
+          }
+        },
+      },
+      ...(options?.mapErrors === false
+        ? []
+        : [
+            errorResponseMiddleware(() => ({
+              requestId: request.requestId,
+              instance: request.path,
+            })) as Middleware<TEvent, R>,
+          ]),
+      ...(options?.schemas
+        ? [requestValidationMiddleware(options.schemas)]
+        : []),
+      ...(options?.middlewares ?? []),
+    ],
+    event,
+    context,
+    // the validation middleware adds `validated` to the event when there are schemas
+    handler as (event: TEvent, context?: Context) => Promise<R>
+  ).finally(() => SpanExporters.flush());
+  return {
+    result,
+    responseHeaders: { ...HttpProblems.getCorsHeaders(), ...traceHeaders },
+  };
+};
 
 /**
  * Higher order function to wrap AWS API Gateway Lambda handler with tracing context.
  * Extract a traceId from the incoming API Gateway event or X-Ray context and sets up
- * a tracing context for the handler execution.
- * Injects `X-Trace-Id` response header with the trace ID.
+ * a tracing context for the handler execution, with a root span for the request.
+ * Injects `X-Trace-Id` (and `traceparent`) response headers with the trace ID.
+ * Errors become problem+json responses carrying the trace ID and the API Gateway
+ * request ID.
+ *
+ * Sample usage:
+ * export const handler = tracedApiGatewayHandler(
+ *   async ({ validated: { body, path } }) => ({ statusCode: 201, body: "" }),
+ *   { schemas: { body: OrderSchema, path: z.object({ id: z.string() }) } }
+ * );
  */
-export const tracedApiGatewayHandler = (
-  handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>
+export const tracedApiGatewayHandler = <
+  S extends RequestSchemas | undefined = undefined
+>(
+  handler: (
+    event: ValidatedHttpEvent<APIGatewayProxyEvent, S>,
+    context?: Context
+  ) => Promise<APIGatewayProxyResult>,
+  options?: TracedHttpHandlerOptions<
+    APIGatewayProxyEvent,
+    APIGatewayProxyResult,
+    S
+  >
 ) => {
   return async (
-    event: APIGatewayProxyEvent
+    event: APIGatewayProxyEvent,
+    context?: Context
   ): Promise<APIGatewayProxyResult> => {
-    const ctx = TraceId.fromAPIGatewayEvent(event);
-    // Run the handler inside the tracing context
-    const result = await TracingContext.withTraceContext(ctx, () =>
-      handler(event)
+    const { result, responseHeaders } = await runTracedHttpRequest(
+      event,
+      context,
+      {
+        headers: event.headers,
+        method: event.httpMethod,
+        route: event.resource ?? event.path,
+        path: event.path,
+        requestId: event.requestContext?.requestId,
+      },
+      handler,
+      options
     );
 
     return {
       ...result,
       headers: {
         ...(result.headers ?? {}),
-        ...TraceId.toHttpHeaders(ctx.traceId),
+        ...responseHeaders,
       },
     } as APIGatewayProxyResult;
   };
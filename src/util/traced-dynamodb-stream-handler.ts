@@ -0,0 +1,118 @@
+import type {
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+} from "aws-lambda";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { TraceContext, TraceId } from "./tracing-utils";
+import { standardTracedEventExtractor } from "./traced-event-handler";
+import {
+  PropagatorConfig,
+  TraceCarrier,
+  TraceCarriers,
+  TracePropagators,
+} from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+
+export type DynamoDbRecordHandler<R = void> = (
+  record: DynamoDBRecord,
+  context?: Context,
+) => Promise<R>;
+
+/**
+ * Carrier over a DynamoDB stream record: the unmarshalled new image (old image for
+ * `REMOVE`) through `standardTracedEventExtractor`, e.g. a `traceId` attribute.
+ */
+export const dynamoDbRecordCarrier = (record: DynamoDBRecord): TraceCarrier => {
+  const image = record.dynamodb?.NewImage ?? record.dynamodb?.OldImage;
+  if (!image) {
+    return { get: () => undefined };
+  }
+  try {
+    return TraceCarriers.fromTracedEvent(
+      standardTracedEventExtractor(
+        // stream attribute values have the same shape as the SDK ones
+        unmarshall(image as Parameters<typeof unmarshall>[0]),
+      ),
+    );
+  } catch {
+    return { get: () => undefined };
+  }
+};
+
+export const defaultExtractDynamoDbTraceContext = (
+  record: DynamoDBRecord,
+  propagators?: PropagatorConfig,
+): TraceContext =>
+  TracePropagators.extract(dynamoDbRecordCarrier(record), propagators);
+
+/**
+ * Higher-order wrapper for DynamoDB Streams consumer Lambdas. Each record runs in its
+ * own trace, continued from the `traceId` (or `traceparent`) attribute of the item that
+ * changed: the new image, the old one for `REMOVE` (see dynamoDbRecordCarrier), and
+ * sampled per table. Records run in order and processing stops at the first failure,
+ * whose sequence number is the only batch item failure: Lambda retries the shard from
+ * that record on, so later records are not run twice.
+ * Requires `ReportBatchItemFailures` on the event source mapping.
+ *
+ * Sample usage:
+ * export const handler = tracedDynamoDbStreamHandler(async (record) => { ... });
+ */
+export const tracedDynamoDbStreamHandler = <R = void>(
+  handler: DynamoDbRecordHandler<R>,
+  options?: {
+    extract?: (record: DynamoDBRecord) => string | undefined;
+    propagators?: PropagatorConfig;
+    sampler?: Sampler;
+    middlewares?: Middleware<DynamoDBRecord, R>[];
+  },
+): ((
+  event: DynamoDBStreamEvent,
+  context?: Context,
+) => Promise<DynamoDBBatchResponse>) => {
+  const extract = (record: DynamoDBRecord): TraceContext =>
+    TraceSamplers.sample(
+      options?.extract
+        ? { traceId: options.extract(record) ?? TraceId.generate() }
+        : defaultExtractDynamoDbTraceContext(record, options?.propagators),
+      // arn:aws:dynamodb:<region>:<account>:table/<table>/stream/<label>
+      { stream: record.eventSourceARN?.split("/")[1] },
+      options?.sampler,
+    );
+  const middlewares: Middleware<DynamoDBRecord, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "dynamodb stream record",
+      attributes: (record: DynamoDBRecord) => ({
+        "db.system": "dynamodb",
+        "db.operation": record.eventName ?? "",
+        "aws.dynamodb.sequence_number": record.dynamodb?.SequenceNumber ?? "",
+        "messaging.source": record.eventSourceARN ?? "",
+      }),
+    }),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (
+    event: DynamoDBStreamEvent,
+    context?: Context,
+  ): Promise<DynamoDBBatchResponse> => {
+    for (const record of event.Records) {
+      const sequenceNumber = record.dynamodb?.SequenceNumber ?? "";
+      try {
+        await runWithMiddlewares(middlewares, record, context, handler);
+      } catch (err) {
+        console.error("stream record processing failed", sequenceNumber, err);
+        await SpanExporters.flush();
+        return { batchItemFailures: [{ itemIdentifier: sequenceNumber }] };
+      }
+    }
+
+    await SpanExporters.flush();
+    return { batchItemFailures: [] };
+  };
+};
@@ -1,20 +1,34 @@
-import { TracedEvent, TraceId, TracingContext } from "./tracing-utils";
+import type { Context } from "aws-lambda";
+import { SpanAttributes, TracedEvent, TraceId } from "./tracing-utils";
+import { PropagatorConfig } from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+import { IdempotencyOptions, idempotencyMiddleware } from "./idempotency";
 
 /**
  * Extract a TracedEvent from an incoming payload.
  *
  * Precedence:
- * 1) Top-level 'traceId' or 'detail.traceId' — return input.
- * 2) 'inpu.event' with 'traceId' or 'detail.traceId' — return 'event'.
+ * 1) Top-level 'traceId'/'baggage' or 'detail.traceId'/'detail.baggage' — return input.
+ * 2) 'input.event' with 'traceId'/'baggage' or 'detail.traceId'/'detail.baggage' — return 'event'.
  * 3) Fallback — return input.
  */
 export const standardTracedEventExtractor = <EventType>(
   event: EventType
 ): TracedEvent => {
   const asTracedEvent = event as unknown as TracedEvent;
+  const isTraced = (traced: TracedEvent): boolean =>
+    Boolean(
+      traced.traceId ||
+        traced.detail?.traceId ||
+        traced.baggage ||
+        traced.detail?.baggage
+    );
 
-  // If top-level traceId or detail.traceId exists, return as-is
-  if (asTracedEvent.traceId || asTracedEvent.detail?.traceId) {
+  // If top-level traceId or detail.traceId (or baggage) exists, return as-is
+  if (isTraced(asTracedEvent)) {
     return asTracedEvent;
   }
 
@@ -23,7 +37,7 @@ export const standardTracedEventExtractor = <EventType>(
     | TracedEvent
     | undefined;
   if (possibleWrapped && typeof possibleWrapped === "object") {
-    if (possibleWrapped.traceId || possibleWrapped.detail?.traceId) {
+    if (isTraced(possibleWrapped)) {
       return possibleWrapped;
     }
   }
@@ -32,21 +46,53 @@ export const standardTracedEventExtractor = <EventType>(
 };
 
 /**
- * Higher order function to wrap Lambda function in Integration Step function with tracing context
+ * Higher order function to wrap Lambda function in Integration Step function with tracing context.
+ * The handler runs inside a root span named `spanName` (default "event"), through the
+ * optional `middlewares`. With `idempotency`, duplicate deliveries return the stored
+ * result instead of running the handler again.
  */
 export const tracedEventHandler = <EventType = any, ResultType = any>(
-  handler: (event: EventType) => Promise<ResultType>,
+  handler: (event: EventType, context?: Context) => Promise<ResultType>,
   options?: {
     extract?: (event: EventType) => TracedEvent;
+    propagators?: PropagatorConfig;
+    spanName?: string;
+    sampler?: Sampler;
+    middlewares?: Middleware<EventType, ResultType>[];
+    idempotency?: IdempotencyOptions<EventType>;
   }
-): ((event: EventType) => Promise<ResultType>) => {
-  return async (event: EventType): Promise<ResultType> => {
-    const extractor =
-      options?.extract ?? standardTracedEventExtractor<EventType>;
-    const tracedEvent = extractor(event);
-    const ctx = TraceId.fromTracedEvent(tracedEvent);
-    return TracingContext.withTraceContext(ctx, async () => {
-      return handler(event);
-    });
+): ((event: EventType, context?: Context) => Promise<ResultType>) => {
+  const getDetailType = (event: EventType): string | undefined => {
+    const detailType = (event as Record<string, unknown> | undefined)?.[
+      "detail-type"
+    ];
+    return typeof detailType === "string" ? detailType : undefined;
   };
+  const middlewares: Middleware<EventType, ResultType>[] = [
+    tracingMiddleware({
+      extract: (event: EventType) => {
+        const extractor =
+          options?.extract ?? standardTracedEventExtractor<EventType>;
+        return TraceSamplers.sample(
+          TraceId.fromTracedEvent(extractor(event), options?.propagators),
+          { detailType: getDetailType(event) },
+          options?.sampler
+        );
+      },
+      spanName: options?.spanName ?? "event",
+      attributes: (event: EventType): SpanAttributes => {
+        const detailType = getDetailType(event);
+        return detailType ? { "event.detail_type": detailType } : {};
+      },
+    }),
+    ...(options?.idempotency
+      ? [idempotencyMiddleware<EventType, ResultType>(options.idempotency)]
+      : []),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (event: EventType, context?: Context): Promise<ResultType> =>
+    runWithMiddlewares(middlewares, event, context, handler).finally(() =>
+      SpanExporters.flush()
+    );
 };
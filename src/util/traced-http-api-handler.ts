@@ -0,0 +1,92 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+  Context,
+} from "aws-lambda";
+import {
+  runTracedHttpRequest,
+  TracedHttpHandlerOptions,
+} from "./traced-api-gateway-handler";
+import { RequestSchemas, ValidatedHttpEvent } from "./request-validation";
+
+/**
+ * Normalize a HTTP API (payload format 2.0) result into the structured format.
+ * A string or object result is what API Gateway would infer: 200, JSON body.
+ * See https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-develop-integrations-lambda.html#http-api-develop-integrations-lambda.response
+ */
+const toStructuredResult = <T>(
+  result: APIGatewayProxyResultV2<T>
+): APIGatewayProxyStructuredResultV2 => {
+  if (
+    result &&
+    typeof result === "object" &&
+    "statusCode" in (result as APIGatewayProxyStructuredResultV2)
+  ) {
+    return result as APIGatewayProxyStructuredResultV2;
+  }
+  return {
+    statusCode: 200,
+    headers: { "content-type": "application/json" },
+    body: typeof result === "string" ? result : JSON.stringify(result),
+  };
+};
+
+/**
+ * Higher order function to wrap an API Gateway HTTP API (payload format 2.0) Lambda handler
+ * with tracing context. Same extraction and response header rules as `tracedApiGatewayHandler`;
+ * HTTP API headers are lower-cased, which the header carrier handles. The root span is
+ * named after the method and the path of the route key. String and object results are
+ * normalized to a 200 JSON response, and errors become problem+json responses with the
+ * HTTP API request ID, so the trace headers can be added to either.
+ */
+export const tracedHttpApiHandler = <
+  T = never,
+  S extends RequestSchemas | undefined = undefined
+>(
+  handler: (
+    event: ValidatedHttpEvent<APIGatewayProxyEventV2, S>,
+    context?: Context
+  ) => Promise<APIGatewayProxyResultV2<T>>,
+  options?: TracedHttpHandlerOptions<
+    APIGatewayProxyEventV2,
+    APIGatewayProxyResultV2<T>,
+    S
+  >
+): ((
+  event: APIGatewayProxyEventV2,
+  context?: Context
+) => Promise<APIGatewayProxyStructuredResultV2>) => {
+  return async (
+    event: APIGatewayProxyEventV2,
+    context?: Context
+  ): Promise<APIGatewayProxyStructuredResultV2> => {
+    // routeKey is "METHOD /path/{param}", or "$default"
+    const route =
+      event.routeKey && event.routeKey !== "$default"
+        ? event.routeKey.replace(/^\S+\s+/, "")
+        : event.rawPath;
+    const { result, responseHeaders } = await runTracedHttpRequest(
+      event,
+      context,
+      {
+        headers: event.headers,
+        method: event.requestContext.http.method,
+        route,
+        path: event.rawPath,
+        requestId: event.requestContext.requestId,
+      },
+      handler,
+      options
+    );
+
+    const structured = toStructuredResult(result);
+    return {
+      ...structured,
+      headers: {
+        ...(structured.headers ?? {}),
+        ...responseHeaders,
+      },
+    };
+  };
+};
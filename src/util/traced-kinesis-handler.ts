@@ -0,0 +1,113 @@
+import type {
+  Context,
+  KinesisStreamBatchResponse,
+  KinesisStreamEvent,
+  KinesisStreamRecord,
+} from "aws-lambda";
+import { TraceContext, TraceId } from "./tracing-utils";
+import { standardTracedEventExtractor } from "./traced-event-handler";
+import {
+  PropagatorConfig,
+  TraceCarrier,
+  TraceCarriers,
+  TracePropagators,
+} from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+
+export type KinesisRecordHandler<R = void> = (
+  record: KinesisStreamRecord,
+  context?: Context,
+) => Promise<R>;
+
+/**
+ * Carrier over a Kinesis record: the base64-decoded JSON data through
+ * `standardTracedEventExtractor`.
+ */
+export const kinesisRecordCarrier = (
+  record: KinesisStreamRecord,
+): TraceCarrier => {
+  try {
+    const data = Buffer.from(record.kinesis.data, "base64").toString("utf8");
+    return TraceCarriers.fromTracedEvent(
+      standardTracedEventExtractor(JSON.parse(data)),
+    );
+  } catch {
+    return { get: () => undefined };
+  }
+};
+
+export const defaultExtractKinesisTraceContext = (
+  record: KinesisStreamRecord,
+  propagators?: PropagatorConfig,
+): TraceContext =>
+  TracePropagators.extract(kinesisRecordCarrier(record), propagators);
+
+/**
+ * Higher-order wrapper for Kinesis Data Streams consumer Lambdas. Each record runs in
+ * its own trace, continued from the `traceId` (or `traceparent`) field of the
+ * base64-decoded JSON data (see kinesisRecordCarrier), and sampled per stream; records
+ * that are not JSON start a new trace. Records run in order and processing stops at the
+ * first failure, whose sequence number is the only batch item failure: Lambda retries
+ * the shard from that record on.
+ * Requires `ReportBatchItemFailures` on the event source mapping.
+ *
+ * Sample usage:
+ * export const handler = tracedKinesisHandler(async (record) => { ... });
+ */
+export const tracedKinesisHandler = <R = void>(
+  handler: KinesisRecordHandler<R>,
+  options?: {
+    extract?: (record: KinesisStreamRecord) => string | undefined;
+    propagators?: PropagatorConfig;
+    sampler?: Sampler;
+    middlewares?: Middleware<KinesisStreamRecord, R>[];
+  },
+): ((
+  event: KinesisStreamEvent,
+  context?: Context,
+) => Promise<KinesisStreamBatchResponse>) => {
+  const extract = (record: KinesisStreamRecord): TraceContext =>
+    TraceSamplers.sample(
+      options?.extract
+        ? { traceId: options.extract(record) ?? TraceId.generate() }
+        : defaultExtractKinesisTraceContext(record, options?.propagators),
+      // arn:aws:kinesis:<region>:<account>:stream/<stream>
+      { stream: record.eventSourceARN?.split("/")[1] },
+      options?.sampler,
+    );
+  const middlewares: Middleware<KinesisStreamRecord, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "kinesis record",
+      attributes: (record: KinesisStreamRecord) => ({
+        "messaging.system": "aws_kinesis",
+        "messaging.message.id": record.kinesis.sequenceNumber,
+        "messaging.kinesis.partition_key": record.kinesis.partitionKey,
+        "messaging.source": record.eventSourceARN,
+      }),
+    }),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (
+    event: KinesisStreamEvent,
+    context?: Context,
+  ): Promise<KinesisStreamBatchResponse> => {
+    for (const record of event.Records) {
+      const { sequenceNumber } = record.kinesis;
+      try {
+        await runWithMiddlewares(middlewares, record, context, handler);
+      } catch (err) {
+        console.error("stream record processing failed", sequenceNumber, err);
+        await SpanExporters.flush();
+        return { batchItemFailures: [{ itemIdentifier: sequenceNumber }] };
+      }
+    }
+
+    await SpanExporters.flush();
+    return { batchItemFailures: [] };
+  };
+};
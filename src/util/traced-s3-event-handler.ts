@@ -0,0 +1,267 @@
+import type { Context, EventBridgeEvent, S3EventRecord } from "aws-lambda";
+import crypto from "crypto";
+import { TraceContext, TraceId } from "./tracing-utils";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+
+/**
+ * Fields of an S3 notification record the wrapper relies on. Replication notifications
+ * have the same shape plus `replicationEventData`.
+ */
+export type S3RecordLike = {
+  eventName: string;
+  responseElements?: { "x-amz-request-id"?: string };
+  s3: {
+    bucket: { name: string };
+    object: { key: string; sequencer?: string };
+  };
+};
+
+/**
+ * `detail` of S3 events delivered by EventBridge
+ * (https://docs.aws.amazon.com/AmazonS3/latest/userguide/ev-events.html)
+ */
+export type S3EventBridgeDetail = {
+  version?: string;
+  bucket: { name: string };
+  object: {
+    key: string;
+    size?: number;
+    etag?: string;
+    "version-id"?: string;
+    sequencer?: string;
+  };
+  "request-id"?: string;
+  requester?: string;
+  "source-ip-address"?: string;
+  reason?: string;
+  "deletion-type"?: string;
+  "replication-rule-id"?: string;
+  "destination-bucket"?: string;
+  "s3-operation"?: string;
+  "request-time"?: string;
+  "failure-reason"?: string;
+  threshold?: number;
+  "replication-time"?: number;
+};
+
+export type S3EventBridgeEvent = EventBridgeEvent<string, S3EventBridgeDetail>;
+
+export type S3NotificationEvent<TRecord extends S3RecordLike = S3EventRecord> =
+  | { Records: TRecord[] }
+  | S3EventBridgeEvent;
+
+// replication detail-types mapped onto the notification event names
+const REPLICATION_EVENT_NAMES: Record<string, string> = {
+  "Object Replication Operation Failed":
+    "Replication:OperationFailedReplication",
+  "Object Replication Operation Missed Threshold":
+    "Replication:OperationMissedThreshold",
+  "Object Replication Operation Replicated After Threshold":
+    "Replication:OperationReplicatedAfterThreshold",
+  "Object Replication Operation Not Tracked": "Replication:OperationNotTracked",
+};
+
+// other detail-types with a single notification event name
+const EVENTBRIDGE_EVENT_NAMES: Record<string, string> = {
+  "Object Restore Initiated": "ObjectRestore:Post",
+  "Object Restore Completed": "ObjectRestore:Completed",
+  "Object Restore Expired": "ObjectRestore:Delete",
+  "Object Tags Added": "ObjectTagging:Put",
+  "Object Tags Deleted": "ObjectTagging:Delete",
+  "Object ACL Updated": "ObjectAcl:Put",
+  "Object Storage Class Changed": "LifecycleTransition",
+  "Object Access Tier Changed": "IntelligentTiering",
+};
+
+// `reason` of EventBridge "Object Created" events mapped onto the notification event names
+const OBJECT_CREATED_EVENT_NAMES: Record<string, string> = {
+  PutObject: "ObjectCreated:Put",
+  "POST Object": "ObjectCreated:Post",
+  CopyObject: "ObjectCreated:Copy",
+  CompleteMultipartUpload: "ObjectCreated:CompleteMultipartUpload",
+};
+
+// unknown reasons keep their name, a missing one is a put
+const toObjectCreatedEventName = (reason = "PutObject"): string =>
+  OBJECT_CREATED_EVENT_NAMES[reason] ?? `ObjectCreated:${reason}`;
+
+// deletes by a lifecycle rule and by a request have their own prefix
+const toObjectDeletedEventName = (detail: S3EventBridgeDetail): string => {
+  const prefix =
+    detail.reason === "Lifecycle Expiration"
+      ? "LifecycleExpiration"
+      : "ObjectRemoved";
+  return detail["deletion-type"] === "Delete Marker Created"
+    ? `${prefix}:DeleteMarkerCreated`
+    : `${prefix}:Delete`;
+};
+
+const toEventName = (event: S3EventBridgeEvent): string => {
+  const detailType = event["detail-type"];
+  if (detailType === "Object Created") {
+    return toObjectCreatedEventName(event.detail.reason);
+  }
+  if (detailType === "Object Deleted") {
+    return toObjectDeletedEventName(event.detail);
+  }
+  const eventName =
+    REPLICATION_EVENT_NAMES[detailType] ?? EVENTBRIDGE_EVENT_NAMES[detailType];
+  if (!eventName) {
+    throw new Error(`Unsupported S3 EventBridge event: ${detailType}`);
+  }
+  return eventName;
+};
+
+const isEventBridgeEvent = <TRecord extends S3RecordLike>(
+  event: S3NotificationEvent<TRecord>,
+): event is S3EventBridgeEvent => "detail-type" in event;
+
+/**
+ * Convert an EventBridge S3 event into the notification record shape, so one handler
+ * serves both delivery paths. The event name is the one the bucket notification would
+ * have, e.g. "Object Deleted" becomes `ObjectRemoved:Delete`; unknown detail-types throw.
+ */
+export const toS3NotificationRecord = (
+  event: S3EventBridgeEvent,
+): S3EventRecord & { replicationEventData?: Record<string, unknown> } => {
+  const { detail } = event;
+  const isReplication = event["detail-type"] in REPLICATION_EVENT_NAMES;
+  return {
+    eventVersion: detail.version ?? "0",
+    eventSource: "aws:s3",
+    awsRegion: event.region,
+    eventTime: event.time,
+    eventName: toEventName(event),
+    userIdentity: { principalId: detail.requester ?? "" },
+    requestParameters: { sourceIPAddress: detail["source-ip-address"] ?? "" },
+    responseElements: {
+      "x-amz-request-id": detail["request-id"] ?? "",
+      "x-amz-id-2": "",
+    },
+    s3: {
+      s3SchemaVersion: "1.0",
+      configurationId: event.id,
+      bucket: {
+        name: detail.bucket.name,
+        ownerIdentity: { principalId: event.account },
+        arn: `arn:aws:s3:::${detail.bucket.name}`,
+      },
+      object: {
+        key: detail.object.key,
+        size: detail.object.size ?? 0,
+        eTag: detail.object.etag ?? "",
+        versionId: detail.object["version-id"],
+        sequencer: detail.object.sequencer ?? "",
+      },
+    },
+    ...(isReplication
+      ? {
+          replicationEventData: {
+            replicationRuleId: detail["replication-rule-id"],
+            destinationBucket: detail["destination-bucket"],
+            s3Operation: detail["s3-operation"],
+            requestTime: detail["request-time"],
+            failureReason: detail["failure-reason"],
+            threshold: detail.threshold,
+            replicationTime: detail["replication-time"],
+          },
+        }
+      : {}),
+  };
+};
+
+/**
+ * Trace id derived from the S3 request id and object sequencer, so a retried
+ * notification continues the same trace. Random when neither is present.
+ */
+export const deriveS3TraceId = (record: S3RecordLike): string => {
+  const requestId = record.responseElements?.["x-amz-request-id"];
+  const sequencer = record.s3.object.sequencer;
+  if (!requestId && !sequencer) {
+    return TraceId.generate();
+  }
+  return crypto
+    .createHash("md5")
+    .update(`${requestId ?? ""}:${sequencer ?? ""}`)
+    .digest("hex");
+};
+
+/**
+ * Higher-order wrapper for S3 event notification Lambdas, invoked by the bucket directly
+ * or through EventBridge. S3 events carry no trace headers: each record runs in a trace
+ * derived from its `x-amz-request-id` and `sequencer` (see deriveS3TraceId), so a
+ * retried notification continues the same trace, sampled per bucket. A failed record is
+ * logged and the other records still run, then the invocation throws with the failed
+ * bucket/key pairs so the asynchronous invocation (or EventBridge) retries the event.
+ *
+ * `TRecord` is the notification record type the handler expects; EventBridge events are
+ * converted with `toS3NotificationRecord`.
+ *
+ * Sample usage:
+ * export const handler = tracedS3EventHandler(async (record) => { ... });
+ */
+export const tracedS3EventHandler = <
+  TRecord extends S3RecordLike = S3EventRecord,
+  R = void,
+>(
+  handler: (record: TRecord, context?: Context) => Promise<R>,
+  options?: {
+    sampler?: Sampler;
+    middlewares?: Middleware<TRecord, R>[];
+  },
+): ((
+  event: S3NotificationEvent<TRecord>,
+  context?: Context,
+) => Promise<void>) => {
+  const extract = (record: TRecord): TraceContext =>
+    TraceSamplers.sample(
+      { traceId: deriveS3TraceId(record), ...TraceId.getXRayContext() },
+      { bucket: record.s3.bucket.name },
+      options?.sampler,
+    );
+  const middlewares: Middleware<TRecord, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "s3 record",
+      attributes: (record: TRecord) => ({
+        "aws.s3.bucket": record.s3.bucket.name,
+        "aws.s3.key": record.s3.object.key,
+        "event.name": record.eventName,
+      }),
+    }),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (
+    event: S3NotificationEvent<TRecord>,
+    context?: Context,
+  ): Promise<void> => {
+    const records = isEventBridgeEvent(event)
+      ? [toS3NotificationRecord(event) as unknown as TRecord]
+      : event.Records ?? [];
+    const failed: string[] = [];
+
+    for (const record of records) {
+      try {
+        await runWithMiddlewares(middlewares, record, context, handler);
+      } catch (err) {
+        console.error(
+          "s3 record processing failed",
+          record.s3.bucket.name,
+          record.s3.object.key,
+          err,
+        );
+        failed.push(`${record.s3.bucket.name}/${record.s3.object.key}`);
+      }
+    }
+
+    await SpanExporters.flush();
+
+    if (failed.length > 0) {
+      throw new Error(`S3 record processing failed: ${failed.join(", ")}`);
+    }
+  };
+};
@@ -0,0 +1,143 @@
+import type {
+  Context,
+  SNSEvent,
+  SNSEventRecord,
+  SNSMessageAttributes,
+} from "aws-lambda";
+import { TraceContext, TraceId } from "./tracing-utils";
+import { standardTracedEventExtractor } from "./traced-event-handler";
+import {
+  PropagatorConfig,
+  TraceCarrier,
+  TraceCarriers,
+  TracePropagators,
+} from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+
+export type SnsRecordHandler<R = void> = (
+  record: SNSEventRecord,
+  context?: Context,
+) => Promise<R>;
+
+/**
+ * SNS notification as delivered to an SQS queue subscribed without raw message delivery
+ */
+export type SnsEnvelope = {
+  Type: "Notification";
+  MessageId: string;
+  TopicArn: string;
+  Message: string;
+  MessageAttributes?: SNSMessageAttributes;
+};
+
+export const isSnsEnvelope = (body: unknown): body is SnsEnvelope => {
+  const envelope = body as Partial<SnsEnvelope> | null;
+  return (
+    typeof envelope === "object" &&
+    envelope !== null &&
+    envelope.Type === "Notification" &&
+    typeof envelope.TopicArn === "string" &&
+    typeof envelope.Message === "string"
+  );
+};
+
+/**
+ * Carrier over an SNS message: message attributes first (`trace-id`, `traceparent`, ...),
+ * then the JSON message through `standardTracedEventExtractor`.
+ */
+export const snsMessageCarrier = (
+  message: string,
+  attributes?: SNSMessageAttributes,
+): TraceCarrier => {
+  let messageCarrier: TraceCarrier | undefined;
+  const getMessageCarrier = (): TraceCarrier => {
+    if (!messageCarrier) {
+      try {
+        messageCarrier = TraceCarriers.fromTracedEvent(
+          standardTracedEventExtractor(JSON.parse(message)),
+        );
+      } catch {
+        messageCarrier = { get: () => undefined };
+      }
+    }
+    return messageCarrier;
+  };
+
+  return TraceCarriers.merge(
+    TraceCarriers.fromSnsMessageAttributes(attributes),
+    { get: (key) => getMessageCarrier().get(key) },
+  );
+};
+
+export const snsRecordCarrier = (record: SNSEventRecord): TraceCarrier =>
+  snsMessageCarrier(record.Sns.Message, record.Sns.MessageAttributes);
+
+export const defaultExtractSnsTraceContext = (
+  record: SNSEventRecord,
+  propagators?: PropagatorConfig,
+): TraceContext =>
+  TracePropagators.extract(snsRecordCarrier(record), propagators);
+
+/**
+ * Higher-order wrapper for Lambdas subscribed to an SNS topic. Each notification runs in
+ * its own trace, continued from the `trace-id`/`traceparent` message attributes, or else
+ * from the `traceId` of the JSON message (see snsMessageCarrier), and sampled per topic.
+ * SNS has no partial-batch response: a failed record is logged and the other records
+ * still run, then the invocation throws with the failed message ids so SNS retries the
+ * delivery.
+ *
+ * Sample usage:
+ * export const handler = tracedSnsHandler(async (record) => { ... });
+ */
+export const tracedSnsHandler = <R = void>(
+  handler: SnsRecordHandler<R>,
+  options?: {
+    extract?: (record: SNSEventRecord) => string | undefined;
+    propagators?: PropagatorConfig;
+    sampler?: Sampler;
+    middlewares?: Middleware<SNSEventRecord, R>[];
+  },
+): ((event: SNSEvent, context?: Context) => Promise<void>) => {
+  const extract = (record: SNSEventRecord): TraceContext =>
+    TraceSamplers.sample(
+      options?.extract
+        ? { traceId: options.extract(record) ?? TraceId.generate() }
+        : defaultExtractSnsTraceContext(record, options?.propagators),
+      { topic: record.Sns.TopicArn?.split(":").pop() },
+      options?.sampler,
+    );
+  const middlewares: Middleware<SNSEventRecord, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "sns record",
+      attributes: (record: SNSEventRecord) => ({
+        "messaging.system": "aws_sns",
+        "messaging.message.id": record.Sns.MessageId,
+        "messaging.source": record.Sns.TopicArn,
+      }),
+    }),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (event: SNSEvent, context?: Context): Promise<void> => {
+    const failed: string[] = [];
+
+    for (const record of event.Records) {
+      try {
+        await runWithMiddlewares(middlewares, record, context, handler);
+      } catch (err) {
+        console.error("message processing failed", record.Sns.MessageId, err);
+        failed.push(record.Sns.MessageId);
+      }
+    }
+
+    await SpanExporters.flush();
+
+    if (failed.length > 0) {
+      throw new Error(`SNS message processing failed: ${failed.join(", ")}`);
+    }
+  };
+};
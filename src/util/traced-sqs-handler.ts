@@ -1,25 +1,127 @@
-import type { SQSEvent, SQSRecord, SQSBatchResponse } from "aws-lambda";
-import { TraceId, TracingContext } from "./tracing-utils";
+import type {
+  Context,
+  SQSBatchResponse,
+  SQSEvent,
+  SQSRecord,
+} from "aws-lambda";
+import { TraceContext, TraceId, TraceLink } from "./tracing-utils";
 import { standardTracedEventExtractor } from "./traced-event-handler";
+import { isSnsEnvelope, snsMessageCarrier } from "./traced-sns-handler";
+import {
+  PropagatorConfig,
+  TraceCarrier,
+  TraceCarriers,
+  TracePropagators,
+} from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Sampler, TraceSamplers } from "./trace-samplers";
+import { Middleware, runWithMiddlewares } from "./middleware-pipeline";
+import { tracingMiddleware } from "./middlewares";
+import { TimeoutWarning } from "./timeout-warning";
+import {
+  ErrorClassifier,
+  PoisonQueueOptions,
+  poisonQueueMiddleware,
+  SqsRetryOptions,
+  withRetries,
+} from "./sqs-retry";
+import { IdempotencyOptions, idempotencyMiddleware } from "./idempotency";
 
-export type SqsRecordHandler<R = void> = (record: SQSRecord) => Promise<R>;
-
-export const defaultExtractTraceId = (record: SQSRecord): string => {
-  const traceIdAttr = record.messageAttributes?.["trace-id"]?.stringValue;
-  if (traceIdAttr) return traceIdAttr;
-  try {
-    const traced = standardTracedEventExtractor(JSON.parse(record.body));
-    const ctx = TraceId.fromTracedEvent(traced);
-    return ctx.traceId;
-  } catch {
-    return TraceId.generate();
+export type SqsRecordHandler<R = void> = (
+  record: SQSRecord,
+  context?: Context,
+) => Promise<R>;
+
+/**
+ * Carrier over an SQS record: message attributes first (`trace-id`, `traceparent`, ...),
+ * then the JSON body through `standardTracedEventExtractor`.
+ * SNS envelopes (subscriptions without raw message delivery) are read through
+ * `snsMessageCarrier`; with raw delivery SNS attributes already are SQS attributes.
+ */
+export const sqsRecordCarrier = (record: SQSRecord): TraceCarrier => {
+  let bodyCarrier: TraceCarrier | undefined;
+  const getBodyCarrier = (): TraceCarrier => {
+    if (!bodyCarrier) {
+      try {
+        const body: unknown = JSON.parse(record.body);
+        bodyCarrier = isSnsEnvelope(body)
+          ? snsMessageCarrier(body.Message, body.MessageAttributes)
+          : TraceCarriers.fromTracedEvent(standardTracedEventExtractor(body));
+      } catch {
+        bodyCarrier = { get: () => undefined };
+      }
+    }
+    return bodyCarrier;
+  };
+
+  return TraceCarriers.merge(
+    TraceCarriers.fromSqsMessageAttributes(record.messageAttributes),
+    { get: (key) => getBodyCarrier().get(key) },
+  );
+};
+
+export const defaultExtractTraceContext = (
+  record: SQSRecord,
+  propagators?: PropagatorConfig,
+): TraceContext =>
+  TracePropagators.extract(sqsRecordCarrier(record), propagators);
+
+export const defaultExtractTraceId = (record: SQSRecord): string =>
+  defaultExtractTraceContext(record).traceId;
+
+/**
+ * Records of a FIFO batch by MessageGroupId, in batch order. Records without a group
+ * are their own group.
+ */
+const groupByMessageGroup = (records: SQSRecord[]): SQSRecord[][] => {
+  const groups = new Map<string, SQSRecord[]>();
+  for (const record of records) {
+    const groupId = record.attributes.MessageGroupId ?? record.messageId;
+    groups.set(groupId, [...(groups.get(groupId) ?? []), record]);
   }
+  return [...groups.values()];
+};
+
+/**
+ * Run tasks with at most `concurrency` in flight, no new task is started once `stopped`
+ */
+const runConcurrently = async (
+  tasks: (() => Promise<void>)[],
+  concurrency: number,
+  stopped: () => boolean,
+): Promise<void> => {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length && !stopped()) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
 };
 
 /**
  * Higher-order wrapper for SQS consumer Lambdas that ensure each record is
  * executed inside a tracing context. Returns the partial-batch failures
  *
+ * Records run one at a time by default; `concurrency` runs up to n records at once
+ * (`parallel: true` runs them all at once).
+ * In FIFO mode (`fifo`, default for `.fifo` queues) records are grouped by MessageGroupId:
+ * groups run concurrently (up to `concurrency`), records of a group in order. Once a
+ * record fails, the later records of its group are reported as failures without being
+ * processed, so SQS redelivers them in order.
+ *
+ * `retry` retries transient errors within the invocation (backoff with jitter);
+ * `poisonQueue` forwards records failing with a permanent error to a DLQ or parking-lot
+ * queue instead of failing them. `classifyError` overrides the classification (see
+ * `classifyError` in sqs-retry).
+ * `idempotency` skips records already processed (e.g. by message id or a payload field).
+ *
+ * When the invocation gets within the TimeoutWarning margin of its timeout, no new
+ * record is started and the batch returns right away: records still running or not
+ * started are reported as failures, so SQS redelivers them.
+ *
  * Sample usage:
  * export const handler = tracedSqsHandler(async (record) => { ... }, , { extract: extractor });
  */
@@ -27,40 +129,211 @@ export const tracedSqsHandler = <R = void>(
   handler: SqsRecordHandler<R>,
   options?: {
     extract?: (record: SQSRecord) => string | undefined;
+    propagators?: PropagatorConfig;
+    sampler?: Sampler;
     parallel?: boolean;
+    concurrency?: number;
+    fifo?: boolean;
+    retry?: SqsRetryOptions;
+    poisonQueue?: PoisonQueueOptions;
+    classifyError?: ErrorClassifier;
+    idempotency?: IdempotencyOptions<SQSRecord>;
+    middlewares?: Middleware<SQSRecord, R>[];
   },
-): ((event: SQSEvent) => Promise<SQSBatchResponse>) => {
-  const extract = options?.extract ?? defaultExtractTraceId;
-  const parallel = Boolean(options?.parallel);
+): ((event: SQSEvent, context?: Context) => Promise<SQSBatchResponse>) => {
+  const concurrency =
+    options?.concurrency ?? (options?.parallel ? Infinity : 1);
+  if (!(concurrency >= 1)) {
+    throw new Error(
+      `tracedSqsHandler concurrency must be at least 1, got ${options?.concurrency}`,
+    );
+  }
+  const extract = (record: SQSRecord): TraceContext =>
+    TraceSamplers.sample(
+      options?.extract
+        ? { traceId: options.extract(record) ?? TraceId.generate() }
+        : defaultExtractTraceContext(record, options?.propagators),
+      { queue: record.eventSourceARN?.split(":").pop() },
+      options?.sampler,
+    );
+  const middlewares: Middleware<SQSRecord, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "sqs record",
+      attributes: (record: SQSRecord) => ({
+        "messaging.system": "aws_sqs",
+        "messaging.message.id": record.messageId,
+        "messaging.source": record.eventSourceARN,
+      }),
+    }),
+    ...(options?.poisonQueue
+      ? [
+          poisonQueueMiddleware({
+            ...options.poisonQueue,
+            classify: options.classifyError,
+          }),
+        ]
+      : []),
+    ...(options?.idempotency
+      ? [idempotencyMiddleware<SQSRecord, R>(options.idempotency)]
+      : []),
+    ...(options?.middlewares ?? []),
+  ];
+  const retry = options?.retry;
+  const handle: SqsRecordHandler<R> = retry
+    ? (record, context) =>
+        withRetries(() => handler(record, context), {
+          ...retry,
+          classify: options?.classifyError,
+          context,
+        })
+    : handler;
 
-  return async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  return async (
+    event: SQSEvent,
+    context?: Context,
+  ): Promise<SQSBatchResponse> => {
     const failed: string[] = [];
+    const unfinished = new Set(event.Records.map((record) => record.messageId));
+    let timedOut = false;
 
-    const processRecord = async (record: SQSRecord): Promise<void> => {
-      const traceId = extract(record) ?? TraceId.generate();
+    const processRecord = async (record: SQSRecord): Promise<boolean> => {
       try {
-        await TracingContext.withTraceContext({ traceId }, async () => {
-          await handler(record);
-        });
+        await runWithMiddlewares(middlewares, record, context, handle);
+        return true;
       } catch (err) {
         console.error("message processing failed", record.messageId, err);
         failed.push(record.messageId);
+        return false;
+      } finally {
+        unfinished.delete(record.messageId);
       }
     };
 
-    if (parallel) {
-      await Promise.all(event.Records.map((record) => processRecord(record)));
-    } else {
-      for (const record of event.Records) {
-        await processRecord(record);
+    // records of a group run in order, a failure blocks the rest of the group
+    const processGroup = async (records: SQSRecord[]): Promise<void> => {
+      for (const [index, record] of records.entries()) {
+        if (timedOut) {
+          return;
+        }
+        if (!(await processRecord(record))) {
+          const blocked = records.slice(index + 1);
+          if (blocked.length > 0) {
+            console.warn(
+              `[tracedSqsHandler] Message group ${record.attributes.MessageGroupId} blocked by ${record.messageId}, ${blocked.length} records not processed`,
+            );
+          }
+          for (const { messageId } of blocked) {
+            failed.push(messageId);
+            unfinished.delete(messageId);
+          }
+          return;
+        }
       }
+    };
+
+    const fifo =
+      options?.fifo ??
+      Boolean(event.Records[0]?.eventSourceARN?.endsWith(".fifo"));
+    const processRecords = (): Promise<void> =>
+      fifo
+        ? runConcurrently(
+            groupByMessageGroup(event.Records).map(
+              (records) => () => processGroup(records),
+            ),
+            concurrency,
+            () => timedOut,
+          )
+        : runConcurrently(
+            event.Records.map((record) => async () => {
+              await processRecord(record);
+            }),
+            concurrency,
+            () => timedOut,
+          );
+
+    const deadline = TimeoutWarning.deadline(context);
+    await Promise.race([
+      processRecords(),
+      deadline.promise.then(async () => {
+        timedOut = true;
+        await TimeoutWarning.expireAll();
+      }),
+    ]);
+    deadline.cancel();
+
+    // records still running after a timeout may settle later, snapshot the failures now
+    const failures = [...failed];
+    if (timedOut && unfinished.size > 0) {
+      console.warn(
+        `[tracedSqsHandler] Timeout approaching, ${unfinished.size} records not processed`,
+      );
+      failures.push(...unfinished);
     }
 
-    if (failed.length > 0) {
+    await SpanExporters.flush();
+
+    if (failures.length > 0) {
       return {
-        batchItemFailures: failed.map((id) => ({ itemIdentifier: id })),
+        batchItemFailures: failures.map((id) => ({ itemIdentifier: id })),
       };
     }
     return { batchItemFailures: [] };
   };
 };
+
+/**
+ * Higher-order wrapper for SQS consumer Lambdas that process the whole batch at once
+ * (fan-in). The batch runs in a new trace, linked to the trace of every record that
+ * carries one (relation `fan_in`).
+ *
+ * Sample usage:
+ * export const handler = tracedSqsBatchHandler(async (event) => { ... });
+ */
+export const tracedSqsBatchHandler = <R = void>(
+  handler: (event: SQSEvent, context?: Context) => Promise<R>,
+  options?: {
+    propagators?: PropagatorConfig;
+    sampler?: Sampler;
+    middlewares?: Middleware<SQSEvent, R>[];
+  },
+): ((event: SQSEvent, context?: Context) => Promise<R>) => {
+  const extract = (event: SQSEvent): TraceContext => {
+    const links = event.Records.flatMap((record): TraceLink[] => {
+      const recordCtx = TracePropagators.extractFromCarrier(
+        sqsRecordCarrier(record),
+        options?.propagators,
+      );
+      return recordCtx
+        ? [
+            {
+              traceId: recordCtx.traceId,
+              spanId: recordCtx.parentSpanId,
+              relation: "fan_in",
+            },
+          ]
+        : [];
+    });
+    return TraceSamplers.sample(
+      { traceId: TraceId.generate(), ...TraceId.getXRayContext(), links },
+      { queue: event.Records[0]?.eventSourceARN?.split(":").pop() },
+      options?.sampler,
+    );
+  };
+  const middlewares: Middleware<SQSEvent, R>[] = [
+    tracingMiddleware({
+      extract,
+      spanName: "sqs batch",
+      attributes: (event: SQSEvent) => ({
+        "messaging.system": "aws_sqs",
+        "messaging.batch.message_count": event.Records.length,
+      }),
+    }),
+    ...(options?.middlewares ?? []),
+  ];
+
+  return async (event: SQSEvent, context?: Context): Promise<R> =>
+    runWithMiddlewares(middlewares, event, context, handler).finally(() =>
+      SpanExporters.flush(),
+    );
+};
@@ -1,20 +1,105 @@
 import { AsyncLocalStorage } from "async_hooks";
+import type { Context } from "aws-lambda";
 import AWSXRay from "aws-xray-sdk-core";
 import crypto from "crypto";
+import {
+  PropagatorConfig,
+  TraceCarriers,
+  TracePropagators,
+} from "./trace-propagators";
+import { SpanExporters } from "./span-exporters";
+import { Baggage, BaggageEntries } from "./trace-baggage";
+import type { LogBufferState } from "./log-buffer";
 
 export type TracedEvent = {
   traceId?: string;
+  baggage?: string | BaggageEntries;
   detail?: {
     traceId?: string;
+    baggage?: string | BaggageEntries;
     [key: string]: any;
   };
   [key: string]: any;
 };
 
-type TraceContext = {
+export type TraceContext = {
   traceId: string;
   spanId?: string;
   xrayEnv?: string;
+  parentSpanId?: string;
+  traceFlags?: string;
+  traceState?: string;
+  span?: Span;
+  baggage?: BaggageEntries;
+  /** Raw inbound trace id refused by the TraceIdPolicy */
+  rejectedTraceId?: string;
+  /** Traces this trace continues from or joins (see TraceLink) */
+  links?: TraceLink[];
+  /** Context of the Lambda invocation, set by the traced handlers */
+  lambdaContext?: Context;
+  /** First invocation of the Lambda instance, known when a Lambda context is set */
+  coldStart?: boolean;
+  /** Log level raised for this trace only (see LogLevels) */
+  logLevel?: string;
+  /** Debug logs held back until the invocation fails (see LogBuffer) */
+  logBuffer?: LogBufferState;
+};
+
+export type TraceLinkRelation =
+  | "continued_from_xray"
+  | "fan_in"
+  | "untrusted_client_id"
+  | (string & {});
+
+/**
+ * Relation to another trace, e.g. the X-Ray root replaced by our own trace id, the
+ * messages of an SQS batch processed together, or an untrusted client id.
+ */
+export type TraceLink = {
+  traceId: string;
+  spanId?: string;
+  relation: TraceLinkRelation;
+};
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatus = "unset" | "ok" | "error";
+
+/**
+ * A unit of work inside a trace. Times are epoch milliseconds.
+ */
+export type Span = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: number;
+  endTime?: number;
+  status: SpanStatus;
+  statusMessage?: string;
+  attributes: SpanAttributes;
+  links: TraceLink[];
+};
+
+/**
+ * Parsed W3C `traceparent` header: `{version}-{trace-id}-{parent-id}-{trace-flags}`
+ * See https://www.w3.org/TR/trace-context/#traceparent-header
+ */
+export type Traceparent = {
+  version: string;
+  traceId: string;
+  parentId: string;
+  traceFlags: string;
+};
+
+/**
+ * SendMessage message attribute shape (@aws-sdk/client-sqs MessageAttributeValue)
+ */
+export type SqsMessageAttributeValue = {
+  DataType: "String";
+  StringValue: string;
 };
 
 type XRaySegmentPartial = {
@@ -22,10 +107,13 @@ type XRaySegmentPartial = {
 };
 
 export class TraceId {
-  private static readonly TRACE_ID_HEADER = "X-Trace-Id";
   private static readonly XRAY_ENV_VAR = "_X_AMZN_TRACE_ID";
   private static readonly XRAY_TRACE_ID_REGEX =
     /(?:Root=)?1-([0-9a-f]{8})-([0-9a-f]{24})/i;
+  private static readonly TRACEPARENT_REGEX =
+    /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(?:-.*)?$/;
+  private static readonly HEX_TRACE_ID_REGEX = /^[0-9a-f]{32}$/i;
+  private static readonly DEFAULT_TRACE_FLAGS = "01";
 
   private static getXRayEnv(): string | undefined {
     // Prefer ALS context if present
@@ -46,104 +134,141 @@ export class TraceId {
   }
 
   /**
-   * Extract trace ID from API Gateway event headers
-   * Priority: x-trace-id -> X-Ray env -> X-Ray segment -> generate new
+   * Generate a new 16 hex chars span id (W3C parent-id / X-Ray segment id format)
    */
-  static fromAPIGatewayEvent(event: {
-    headers?: { [key: string]: string | undefined };
-  }): TraceContext {
-    const headers = event.headers || {};
-    const xrayAvailability = this.getXRayTracingAvailability();
-    const xrayEnv = xrayAvailability.envVar;
-    const segment = this.getCurrentSegment();
-    const spanId = this.getSpanIdFromXRay(xrayEnv, segment);
-
-    const explicitTraceId = this.getHeader(headers, this.TRACE_ID_HEADER);
-    if (explicitTraceId) {
-      console.log(
-        `[TraceId] Extracted trace ID from header: ${explicitTraceId}`,
-      );
-      return { traceId: explicitTraceId, spanId, xrayEnv };
+  public static generateSpanId(): string {
+    return crypto.randomBytes(8).toString("hex");
+  }
+
+  /**
+   * Parse a W3C `traceparent` header value.
+   * Returns undefined for malformed values, the forbidden `ff` version and all-zero ids.
+   */
+  static parseTraceparent(value?: string | null): Traceparent | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const match = value.trim().toLowerCase().match(this.TRACEPARENT_REGEX);
+    if (!match) {
+      return undefined;
+    }
+    const [, version, traceId, parentId, traceFlags] = match;
+    // version 00 must not carry extra fields
+    if (version === "ff" || (version === "00" && match[0].length !== 55)) {
+      return undefined;
+    }
+    if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) {
+      return undefined;
     }
+    return { version, traceId, parentId, traceFlags };
+  }
 
-    // Only use X-Ray env/segment if real tracing is enabled (segment.trace_id)
-    if (xrayAvailability.isTracingEnabled) {
-      const awsTraceFromEnv = this.extractRootTraceId(xrayEnv);
-      if (awsTraceFromEnv) {
-        console.log(
-          `[TraceId] Extracted trace ID from X-Ray environment: ${awsTraceFromEnv}`,
-        );
-        return { traceId: awsTraceFromEnv, spanId, xrayEnv };
-      }
-      const awsTraceFromSegment = this.getRootTraceIdFromSegment(segment);
-      if (awsTraceFromSegment) {
-        console.log(
-          `[TraceId] Extracted trace ID from X-Ray segment: ${awsTraceFromSegment}`,
-        );
-        return { traceId: awsTraceFromSegment, spanId, xrayEnv };
-      }
+  /**
+   * Build a W3C `traceparent` header value for the given trace id.
+   * Returns undefined when the trace id cannot be mapped onto a 32 hex chars W3C trace id.
+   */
+  static toTraceparent(
+    traceId: string,
+    spanId?: string,
+    traceFlags?: string,
+  ): string | undefined {
+    const w3cTraceId = this.toW3CTraceId(traceId);
+    if (!w3cTraceId) {
+      return undefined;
     }
+    const parentId =
+      spanId && /^[0-9a-f]{16}$/i.test(spanId)
+        ? spanId.toLowerCase()
+        : this.generateSpanId();
+    const flags =
+      traceFlags && /^[0-9a-f]{2}$/i.test(traceFlags)
+        ? traceFlags.toLowerCase()
+        : this.DEFAULT_TRACE_FLAGS;
+    return `00-${w3cTraceId}-${parentId}-${flags}`;
+  }
+
+  /**
+   * Whether W3C trace flags carry the sampled bit
+   */
+  static isSampledFlags(traceFlags: string): boolean {
+    return (parseInt(traceFlags, 16) & 1) === 1;
+  }
+
+  /**
+   * Map a trace id onto the 32 hex chars W3C trace id.
+   * Our generated ids (8 hex epoch + 24 hex random) and X-Ray root ids map 1:1,
+   * any other format (e.g. a custom X-Trace-Id value) cannot be mapped.
+   */
+  static toW3CTraceId(traceId?: string): string | undefined {
+    if (!traceId) {
+      return undefined;
+    }
+    if (this.HEX_TRACE_ID_REGEX.test(traceId)) {
+      return /^0+$/.test(traceId) ? undefined : traceId.toLowerCase();
+    }
+    return this.extractRootTraceId(traceId)?.toLowerCase();
+  }
 
-    // fallback: generate new trace ID
-    return { traceId: this.generate(), spanId, xrayEnv };
+  /**
+   * Extract trace ID from API Gateway event headers
+   * Priority (default propagators): x-trace-id -> traceparent -> X-Ray env -> X-Ray segment -> generate new
+   */
+  static fromAPIGatewayEvent(
+    event: {
+      headers?: { [key: string]: string | undefined } | null;
+    },
+    propagators?: PropagatorConfig,
+  ): TraceContext {
+    return TracePropagators.extract(
+      TraceCarriers.fromHeaders(event.headers),
+      propagators,
+    );
   }
 
   /**
    * Extract trace ID from any traced event structure.
    *
-   * Priority:
-   *   1. traceId
-   *   2. X-Ray context (env/segment)
-   *   3. Generate new
+   * Priority (default propagators):
+   *   1. traceId (top-level, then detail.traceId)
+   *   2. traceparent (top-level, then detail.traceparent)
+   *   3. X-Ray context (env/segment)
+   *   4. Generate new
    */
-  static fromTracedEvent(tracedEvent: TracedEvent): TraceContext {
-    const xrayEnv = this.getXRayEnv();
-    const segment = this.getCurrentSegment();
-    const spanId = this.getSpanIdFromXRay(xrayEnv, segment);
-
-    // explicit top-level traceId
-    if (tracedEvent.traceId) {
-      console.log("[TraceId] Extracted trace ID from traced event:", {
-        traceId: tracedEvent.traceId,
-      });
-      return { traceId: tracedEvent.traceId, spanId, xrayEnv };
-    }
+  static fromTracedEvent(
+    tracedEvent: TracedEvent,
+    propagators?: PropagatorConfig,
+  ): TraceContext {
+    return TracePropagators.extract(
+      TraceCarriers.fromTracedEvent(tracedEvent),
+      propagators,
+    );
+  }
 
-    // explicit traceId in event detail
-    if (tracedEvent.detail?.traceId) {
-      console.log(
-        `[TraceId] Extracted trace ID from traced event detail: ${tracedEvent.detail.traceId}`,
-      );
-      return {
-        traceId: tracedEvent.detail.traceId,
-        spanId,
-        xrayEnv,
-      };
-    }
+  /**
+   * X-Ray part of a trace context: span id (Parent= or segment id) and the raw env value.
+   * Present regardless of which propagator provided the trace id.
+   */
+  static getXRayContext(): Pick<TraceContext, "spanId" | "xrayEnv"> {
+    const xrayEnv = this.getXRayTracingAvailability().envVar;
+    const spanId = this.getSpanIdFromXRay(xrayEnv, this.getCurrentSegment());
+    return { spanId, xrayEnv };
+  }
 
+  /**
+   * X-Ray root trace id (32 hex chars) from env or segment.
+   * Only returned if real tracing is enabled (Sampled=1 with a valid Root).
+   */
+  static getXRayRootTraceId(): string | undefined {
     const xrayAvailability = this.getXRayTracingAvailability();
-    if (xrayAvailability.isTracingEnabled) {
-      // X-Ray trace ID from env
-      const awsTraceFromEnv = this.getRootTraceIdFromEnvironment();
-      if (awsTraceFromEnv) {
-        console.log(
-          `[TraceId] Extracted trace ID from X-Ray environment: ${awsTraceFromEnv}`,
-        );
-        return { traceId: awsTraceFromEnv, spanId, xrayEnv };
-      }
-
-      // X-Ray trace ID from segment:
-      const awsTraceFromSegment = this.getRootTraceIdFromSegment(segment);
-      if (awsTraceFromSegment) {
-        console.log(
-          `[TraceId] Extracted trace ID from X-Ray segment: ${awsTraceFromSegment}`,
-        );
-        return { traceId: awsTraceFromSegment, spanId, xrayEnv };
-      }
+    if (!xrayAvailability.isTracingEnabled) {
+      return undefined;
     }
-    // Generate new trace ID
-    return { traceId: this.generate(), spanId, xrayEnv };
+    return (
+      this.extractRootTraceId(xrayAvailability.envVar) ??
+      this.getRootTraceIdFromSegment(this.getCurrentSegment())
+    );
   }
+
   /**
    * Extract spanId from X-Ray context.
    * If xrayEnv is present, use Parent= value. Otherwise, fallback to segment.id
@@ -169,27 +294,47 @@ export class TraceId {
   /**
    * Create headers for downstream http request.
    * If traceId is not provided, read from TracingContext, otherwise return an empty object.
+   * With the default propagators, emits both `X-Trace-Id` and W3C `traceparent`/`tracestate`
+   * (when the id can be mapped) so downstream services can pick either format.
    */
-  static toHttpHeaders(traceId?: string): Record<string, string> {
+  static toHttpHeaders(
+    traceId?: string,
+    propagators?: PropagatorConfig,
+  ): Record<string, string> {
     const id = traceId ?? TracingContext.getTraceId();
-    return id ? { [this.TRACE_ID_HEADER]: id } : {};
+    if (!id) {
+      return {};
+    }
+    const headers: Record<string, string> = {};
+    TracePropagators.inject(
+      TraceCarriers.fromHeaders(headers),
+      { ...TracingContext.getTraceContext(), traceId: id },
+      propagators,
+    );
+    return headers;
   }
 
-  private static getHeader(
-    headers: Record<string, string | undefined>,
-    headerName: string,
-  ): string | undefined {
-    const target = headerName.toLowerCase();
-    // case in
-    for (const key in headers) {
-      if (key.toLowerCase() === target) {
-        return headers[key];
-      }
-    }
-    return undefined;
+  /**
+   * Create SQS message attributes (`trace-id`, `traceparent`, `baggage`, ...) for
+   * SendMessage from the current TracingContext.
+   * Note SQS allows at most 10 message attributes per message.
+   */
+  static toSqsMessageAttributes(
+    propagators?: PropagatorConfig,
+  ): Record<string, SqsMessageAttributeValue> {
+    const attributes: Record<string, SqsMessageAttributeValue> = {};
+    TracePropagators.inject(
+      TraceCarriers.toSqsMessageAttributes(attributes),
+      undefined,
+      propagators,
+    );
+    return attributes;
   }
 
-  private static extractRootTraceId(
+  /**
+   * Extract the X-Ray root trace id as 32 hex chars (`1-xxxxxxxx-yyyy...` -> `xxxxxxxxyyyy...`)
+   */
+  static extractRootTraceId(
     traceValue?: string | null,
   ): string | undefined {
     if (!traceValue) {
@@ -265,18 +410,133 @@ export class TracingContext {
     return this.als.getStore();
   }
 
+  static getTraceContext(): TraceContext | undefined {
+    return this.getStore();
+  }
+
   static getTraceId(): string {
     return this.getStore()?.traceId || "";
   }
 
+  /**
+   * Id of the active span, or the X-Ray Parent/segment id when no span has been started
+   */
   static getSpanId(): string | undefined {
     return this.getStore()?.spanId;
   }
 
+  static getActiveSpan(): Span | undefined {
+    return this.getStore()?.span;
+  }
+
+  /**
+   * Add attributes to the active span, no-op outside a span
+   */
+  static setSpanAttributes(attributes: SpanAttributes): void {
+    const span = this.getActiveSpan();
+    if (span) {
+      Object.assign(span.attributes, attributes);
+    }
+  }
+
+  /**
+   * Mark the active span as failed with `error`, for errors handled without rethrowing
+   * (e.g. turned into a 5xx response). The span keeps the error status when it ends.
+   * No-op outside a span.
+   */
+  static recordException(error: unknown): void {
+    const span = this.getActiveSpan();
+    if (span) {
+      const message = error instanceof Error ? error.message : String(error);
+      span.status = "error";
+      span.statusMessage = message;
+      Object.assign(span.attributes, {
+        "exception.type": error instanceof Error ? error.name : typeof error,
+        "exception.message": message,
+      });
+    }
+  }
+
   static getXRayEnv(): string | undefined {
     return this.getStore()?.xrayEnv;
   }
 
+  static getParentSpanId(): string | undefined {
+    return this.getStore()?.parentSpanId;
+  }
+
+  static getTraceFlags(): string | undefined {
+    return this.getStore()?.traceFlags;
+  }
+
+  static getTraceState(): string | undefined {
+    return this.getStore()?.traceState;
+  }
+
+  static getLambdaContext(): Context | undefined {
+    return this.getStore()?.lambdaContext;
+  }
+
+  static isColdStart(): boolean | undefined {
+    return this.getStore()?.coldStart;
+  }
+
+  static getLogLevel(): string | undefined {
+    return this.getStore()?.logLevel;
+  }
+
+  /**
+   * Raise the log level for the rest of the current trace, e.g. to debug one request.
+   * Only applies while the trace is sampled. No-op outside a tracing context.
+   */
+  static setLogLevel(level: string): void {
+    const store = this.getStore();
+    if (store) {
+      store.logLevel = level;
+    }
+  }
+
+  static getLinks(): TraceLink[] {
+    return this.getStore()?.links ?? [];
+  }
+
+  /**
+   * Add a link to the current trace and the active span, e.g. to a message consumed
+   * from another trace. No-op outside a tracing context.
+   */
+  static addLink(link: TraceLink): void {
+    const store = this.getStore();
+    if (store) {
+      store.links = [...(store.links ?? []), link];
+      store.span?.links.push(link);
+    }
+  }
+
+  static getBaggage(): BaggageEntries {
+    return this.getStore()?.baggage ?? {};
+  }
+
+  /**
+   * Add baggage entries to the current context, propagated by subsequent injections
+   * (http headers, EventBridge detail, SQS attributes). Entries are subject to the
+   * Baggage allow-list and limits. No-op outside a tracing context.
+   */
+  static setBaggage(entries: BaggageEntries): void {
+    const store = this.getStore();
+    if (store) {
+      store.baggage = Baggage.limit({ ...store.baggage, ...entries });
+    }
+  }
+
+  /**
+   * Sampling decision of the current trace (see TraceSamplers).
+   * Traces without a decision are treated as sampled.
+   */
+  static isSampled(): boolean {
+    const traceFlags = this.getTraceFlags();
+    return traceFlags ? TraceId.isSampledFlags(traceFlags) : true;
+  }
+
   static async withTraceContext<T>(
     ctx: TraceContext,
     fn: () => Promise<T>,
@@ -285,4 +545,75 @@ export class TracingContext {
     const next = { ...current, ...ctx };
     return await this.als.run(next, fn);
   }
+
+  /**
+   * Run fn inside a new child span of the active span (or of the inbound parent span
+   * for the first span of an invocation).
+   * The span is ended when fn settles, with status `ok` or `error` (also when recorded
+   * with recordException); errors are rethrown.
+   * Ended spans of sampled traces are handed to the configured span exporter (see SpanExporters).
+   *
+   * Sample usage:
+   * await TracingContext.startSpan("load-content", async (span) => { ... }, { contentId });
+   */
+  static async startSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    attributes?: SpanAttributes,
+  ): Promise<T> {
+    const current = this.getStore();
+    const traceId = current?.traceId || TraceId.generate();
+    // the X-Ray parent is only our parent when we continue the X-Ray trace, otherwise it is a link
+    const xrayRoot = TraceId.extractRootTraceId(current?.xrayEnv);
+    const xrayParentSpanId =
+      xrayRoot && xrayRoot === TraceId.toW3CTraceId(traceId)
+        ? current?.spanId
+        : undefined;
+    const span: Span = {
+      traceId,
+      spanId: TraceId.generateSpanId(),
+      parentSpanId:
+        current?.span?.spanId ?? current?.parentSpanId ?? xrayParentSpanId,
+      name,
+      startTime: Date.now(),
+      status: "unset",
+      attributes: {
+        // root span keeps the refused inbound id
+        ...(!current?.span && current?.rejectedTraceId
+          ? { "trace.rejected_id": current.rejectedTraceId }
+          : {}),
+        ...attributes,
+      },
+      // root span carries the trace links
+      links: current?.span ? [] : [...(current?.links ?? [])],
+    };
+    const next: TraceContext = {
+      ...current,
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      span,
+    };
+
+    return await this.als.run(next, async () => {
+      try {
+        const result = await fn(span);
+        // an error recorded with recordException is kept
+        if (span.status === "unset") {
+          span.status = "ok";
+        }
+        return result;
+      } catch (err) {
+        span.status = "error";
+        span.statusMessage = err instanceof Error ? err.message : String(err);
+        throw err;
+      } finally {
+        span.endTime = Date.now();
+        // verbose spans are only recorded for sampled traces
+        if (this.isSampled()) {
+          SpanExporters.onEnd(span);
+        }
+      }
+    });
+  }
 }
@@ -0,0 +1,77 @@
+import { SFNClient, StartExecutionCommand } from "@aws-sdk/client-sfn";
+import { mockClient } from "aws-sdk-client-mock";
+import { handler } from "../../src/lambda/integration-controller-lambda";
+
+const sfnMock = mockClient(SFNClient);
+
+const event = {
+  id: "6a7e8feb-b491-4cf7-a9f1-bf3703467718",
+  version: "0",
+  account: "123456789012",
+  time: "2026-01-02T03:04:05Z",
+  region: "ap-southeast-2",
+  source: "api-gateway",
+  "detail-type": "API Gateway Event",
+  detail: {
+    traceId: "6ad65c187b71984fe04205a08d312b1f",
+    timestamp: "2026-01-02T03:04:05Z",
+    source: "api-gateway",
+  },
+};
+
+const invoke = () => handler(event, undefined as never, () => undefined);
+
+describe("integration controller", () => {
+  beforeAll(() => {
+    process.env.BUSINESS_SFN_ARN =
+      "arn:aws:states:ap-southeast-2:123456789012:stateMachine:business";
+  });
+
+  afterAll(() => {
+    delete process.env.BUSINESS_SFN_ARN;
+  });
+
+  beforeEach(() => {
+    sfnMock.reset();
+  });
+
+  it("does not store the result of a failed StartExecution", async () => {
+    sfnMock
+      .on(StartExecutionCommand)
+      .rejectsOnce(new Error("Rate exceeded"))
+      .resolves({
+        executionArn: "arn:aws:states:ap-southeast-2:123456789012:execution:1",
+      });
+
+    await expect(invoke()).rejects.toThrow(
+      "Could not start the business state machine",
+    );
+    // the redelivery starts the execution
+    await expect(invoke()).resolves.toMatchObject({
+      businessExecution: {
+        executionArn: "arn:aws:states:ap-southeast-2:123456789012:execution:1",
+      },
+    });
+    // later duplicates get the stored result
+    await invoke();
+    expect(sfnMock.commandCalls(StartExecutionCommand)).toHaveLength(2);
+  });
+
+  it("passes the trace context of the event to the state machine", async () => {
+    sfnMock.on(StartExecutionCommand).resolves({});
+
+    await handler(
+      { ...event, id: "a0b1c2d3-0000-4000-8000-000000000000" },
+      undefined as never,
+      () => undefined,
+    );
+
+    const [call] = sfnMock.commandCalls(StartExecutionCommand);
+    const input = JSON.parse(call.args[0].input.input ?? "{}");
+    expect(input).toMatchObject({
+      receivedEvent: { id: "a0b1c2d3-0000-4000-8000-000000000000" },
+      traceId: event.detail.traceId,
+      traceparent: expect.stringContaining(event.detail.traceId),
+    });
+  });
+});
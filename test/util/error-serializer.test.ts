@@ -0,0 +1,174 @@
+import { ErrorSerializer } from "../../src/util/error-serializer";
+
+const DEFAULT_OPTIONS = { maxStackFrames: 10, maxCauseDepth: 5, maxErrors: 10 };
+
+const withFrames = (error: Error, frames: number): Error => {
+  error.stack = [
+    `${error.name}: ${error.message}`,
+    ...Array.from(
+      { length: frames },
+      (_, i) => `    at frame${i} (src/lambda/orders.ts:${i + 1}:1)`,
+    ),
+  ].join("\n");
+  return error;
+};
+
+const causedBy = (message: string, cause: unknown): Error =>
+  Object.assign(new Error(message), { cause });
+
+// AggregateError is not in the compiled lib, the serializer only needs `errors`
+const aggregate = (errors: Error[], message: string): Error =>
+  Object.assign(new Error(message), { name: "AggregateError", errors });
+
+describe("ErrorSerializer", () => {
+  afterEach(() => {
+    ErrorSerializer.configure(DEFAULT_OPTIONS);
+  });
+
+  it("keeps primitive own properties", () => {
+    const error = Object.assign(new TypeError("Invalid order"), {
+      code: "INVALID_ORDER",
+      statusCode: 400,
+      details: { orderId: "o-1" },
+    });
+    expect(ErrorSerializer.serialize(error)).toMatchObject({
+      type: "TypeError",
+      message: "Invalid order",
+      code: "INVALID_ORDER",
+      statusCode: 400,
+    });
+    expect(ErrorSerializer.serialize(error)).not.toHaveProperty("details");
+  });
+
+  it("does not let own properties replace the type and message", () => {
+    const error = Object.assign(new Error("Invalid order"), {
+      type: "validation",
+      code: "INVALID_ORDER",
+    });
+    expect(ErrorSerializer.serialize(error)).toMatchObject({
+      type: "Error",
+      message: "Invalid order",
+      code: "INVALID_ORDER",
+    });
+  });
+
+  it("follows the cause chain", () => {
+    const root = Object.assign(new Error("Connection reset"), {
+      code: "ECONNRESET",
+    });
+    const error = causedBy(
+      "Could not publish",
+      causedBy("Request failed", root),
+    );
+    expect(ErrorSerializer.serialize(error)).toMatchObject({
+      message: "Could not publish",
+      cause: {
+        message: "Request failed",
+        cause: { message: "Connection reset", code: "ECONNRESET" },
+      },
+    });
+  });
+
+  it("stops the cause chain at maxCauseDepth", () => {
+    ErrorSerializer.configure({ maxCauseDepth: 1 });
+    const error = causedBy(
+      "first",
+      causedBy("second", new RangeError("third")),
+    );
+    expect(ErrorSerializer.serialize(error).cause).toMatchObject({
+      message: "second",
+      cause: "[RangeError: third]",
+    });
+  });
+
+  it("marks circular causes", () => {
+    const error: Error & { cause?: unknown } = new Error("first");
+    error.cause = causedBy("second", error);
+    expect(ErrorSerializer.serialize(error).cause).toMatchObject({
+      message: "second",
+      cause: "[Circular]",
+    });
+  });
+
+  it("keeps non-Error causes as is", () => {
+    const error = causedBy("Rejected", { reason: "timeout" });
+    expect(ErrorSerializer.serialize(error).cause).toEqual({
+      reason: "timeout",
+    });
+  });
+
+  it("keeps at most maxErrors errors of an AggregateError", () => {
+    ErrorSerializer.configure({ maxErrors: 2 });
+    const error = aggregate(
+      [new Error("a"), new Error("b"), new Error("c"), new Error("d")],
+      "All failed",
+    );
+    const serialized = ErrorSerializer.serialize(error);
+    expect(serialized).toMatchObject({
+      type: "AggregateError",
+      message: "All failed",
+    });
+    expect(serialized.errors).toEqual([
+      expect.objectContaining({ message: "a" }),
+      expect.objectContaining({ message: "b" }),
+      "[... 2 more errors]",
+    ]);
+  });
+
+  it("caps the stack at maxStackFrames frames", () => {
+    ErrorSerializer.configure({ maxStackFrames: 2 });
+    const { stack } = ErrorSerializer.serialize(
+      withFrames(new Error("Invalid order"), 5),
+    );
+    expect(stack?.split("\n")).toEqual([
+      "Error: Invalid order",
+      "    at frame0 (src/lambda/orders.ts:1:1)",
+      "    at frame1 (src/lambda/orders.ts:2:1)",
+      "    ... 3 more frames",
+    ]);
+  });
+
+  it("keeps shorter stacks as they are", () => {
+    const error = withFrames(new Error("Invalid order"), 3);
+    expect(ErrorSerializer.serialize(error).stack).toBe(error.stack);
+  });
+
+  it("keeps the $metadata and $fault of AWS SDK errors", () => {
+    const error = Object.assign(new Error("Rate exceeded"), {
+      name: "ThrottlingException",
+      $fault: "client",
+      $metadata: {
+        httpStatusCode: 400,
+        requestId: "c6af9ac6-7b61-11e6-9a41-93e812345678",
+        attempts: 3,
+        totalRetryDelay: 450,
+        unknownField: "dropped",
+      },
+      $response: { body: "..." },
+    });
+    const serialized = ErrorSerializer.serialize(error);
+    expect(serialized).toMatchObject({
+      type: "ThrottlingException",
+      $fault: "client",
+    });
+    expect(serialized.$metadata).toEqual({
+      httpStatusCode: 400,
+      requestId: "c6af9ac6-7b61-11e6-9a41-93e812345678",
+      attempts: 3,
+      totalRetryDelay: 450,
+    });
+    expect(serialized).not.toHaveProperty("$response");
+  });
+
+  it("serializes errors nested in logged data", () => {
+    expect(
+      ErrorSerializer.serializeNested({
+        orderId: "o-1",
+        failures: [new Error("Invalid order")],
+      }),
+    ).toEqual({
+      orderId: "o-1",
+      failures: [expect.objectContaining({ message: "Invalid order" })],
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  IdempotencyInProgressError,
+  IdempotencyKeys,
+  idempotencyMiddleware,
+  InMemoryIdempotencyStore,
+} from "../../src/util/idempotency";
+import { runWithMiddlewares } from "../../src/util/middleware-pipeline";
+
+type OrderEvent = { id: string; detail: { orderId: string } };
+
+const NOW = Date.parse("2026-01-02T03:04:05Z");
+
+const event: OrderEvent = {
+  id: "6a7e8feb-b491-4cf7-a9f1-bf3703467718",
+  detail: { orderId: "o-1" },
+};
+
+describe("idempotencyMiddleware", () => {
+  let store: InMemoryIdempotencyStore;
+  let now: number;
+
+  const processEvent = (
+    handler: (event: OrderEvent) => Promise<unknown>,
+    ttlSeconds?: number,
+  ) =>
+    runWithMiddlewares(
+      [
+        idempotencyMiddleware<OrderEvent, unknown>({
+          store,
+          key: IdempotencyKeys.eventId,
+          scope: "orders",
+          ttlSeconds,
+        }),
+      ],
+      event,
+      undefined,
+      handler,
+    );
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyStore();
+    now = NOW;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("replays the stored result of a duplicate", async () => {
+    const handler = jest.fn().mockResolvedValue({ status: "shipped" });
+
+    await expect(processEvent(handler)).resolves.toEqual({ status: "shipped" });
+    await expect(processEvent(handler)).resolves.toEqual({ status: "shipped" });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the handler of a duplicate without a result", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    await processEvent(handler);
+    await expect(processEvent(handler)).resolves.toBeNull();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a duplicate while the first one is in progress", async () => {
+    let finish = (): void => undefined;
+    const first = processEvent(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    const handler = jest.fn();
+
+    await expect(processEvent(handler)).rejects.toBeInstanceOf(
+      IdempotencyInProgressError,
+    );
+    expect(handler).not.toHaveBeenCalled();
+    finish();
+    await first;
+  });
+
+  it("releases the key when the handler fails", async () => {
+    const error = new Error("Payment declined");
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValue({ status: "shipped" });
+
+    await expect(processEvent(handler)).rejects.toBe(error);
+    await expect(processEvent(handler)).resolves.toEqual({ status: "shipped" });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs the handler again once the result expired", async () => {
+    const handler = jest
+      .fn()
+      .mockResolvedValueOnce({ status: "shipped" })
+      .mockResolvedValue({ status: "delivered" });
+
+    await processEvent(handler, 60);
+    now += 60_000;
+    await expect(processEvent(handler, 60)).resolves.toEqual({
+      status: "shipped",
+    });
+    now += 1_000;
+    await expect(processEvent(handler, 60)).resolves.toEqual({
+      status: "delivered",
+    });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("processes events without a key normally", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const handler = jest.fn().mockResolvedValue({ status: "shipped" });
+    const processWithoutKey = () =>
+      runWithMiddlewares(
+        [
+          idempotencyMiddleware<OrderEvent, unknown>({
+            store,
+            key: IdempotencyKeys.fromPath("detail.missing"),
+          }),
+        ],
+        event,
+        undefined,
+        handler,
+      );
+
+    await processWithoutKey();
+    await processWithoutKey();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("IdempotencyKeys.fromPath", () => {
+  it("reads through JSON string bodies", () => {
+    expect(
+      IdempotencyKeys.fromPath("$.body.orderId")({
+        body: JSON.stringify({ orderId: 42 }),
+      }),
+    ).toBe("42");
+  });
+});
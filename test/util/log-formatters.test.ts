@@ -0,0 +1,259 @@
+import os from "os";
+import { SerializedError } from "../../src/util/error-serializer";
+import {
+  getLogFormatter,
+  LOG_FORMATTERS,
+  LogRecordInput,
+  LogTraceContext,
+} from "../../src/util/log-formatters";
+
+const TIME = Date.parse("2026-01-02T03:04:05.678Z");
+const OBSERVED_TIME = TIME + 250;
+
+const trace: LogTraceContext = {
+  traceId: "6ad65c187b71984fe04205a08d312b1f",
+  spanId: "86bb2f45d5766b34",
+  parentSpanId: "0f24cb9d86b8440b",
+  spanName: "event",
+  sampled: true,
+  baggage: { tenant: "tvnz" },
+  links: [
+    {
+      traceId: "1-6ad65c18-7b71984fe04205a08d312b1f",
+      relation: "continued_from_xray",
+    },
+  ],
+  lambda: {
+    invocationId: "c6af9ac6-7b61-11e6-9a41-93e812345678",
+    functionName: "tvnz-test-integration-controller",
+    functionVersion: "$LATEST",
+    memoryLimitInMB: 128,
+  },
+  coldStart: true,
+};
+
+const record: LogRecordInput = {
+  time: TIME,
+  level: "info",
+  message: "Order received",
+  attributes: { module: "orders", orderId: "o-1" },
+  trace,
+};
+
+const error: SerializedError = {
+  type: "TypeError",
+  message: "Invalid order",
+  stack:
+    "TypeError: Invalid order\n    at handler (src/lambda/orders.ts:12:11)",
+  code: "INVALID_ORDER",
+};
+
+describe("log formatters", () => {
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(OBSERVED_TIME);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("pino", () => {
+    const format = LOG_FORMATTERS.pino;
+
+    it("writes the level", () => {
+      expect(format.level("info")).toEqual({ level: "info" });
+    });
+
+    it("writes the trace fields flat next to the data", () => {
+      expect(format.record(record)).toEqual({
+        time: "2026-01-02T03:04:05.678Z",
+        pid: process.pid,
+        hostname: os.hostname(),
+        "trace.id": trace.traceId,
+        "span.id": trace.spanId,
+        "parent.id": trace.parentSpanId,
+        "span.name": "event",
+        baggage: { tenant: "tvnz" },
+        "trace.links": [
+          {
+            "trace.id": "1-6ad65c18-7b71984fe04205a08d312b1f",
+            relation: "continued_from_xray",
+          },
+        ],
+        "faas.invocation_id": "c6af9ac6-7b61-11e6-9a41-93e812345678",
+        "faas.name": "tvnz-test-integration-controller",
+        "faas.version": "$LATEST",
+        "faas.max_memory": 128,
+        "faas.coldstart": true,
+        module: "orders",
+        orderId: "o-1",
+        msg: "Order received",
+      });
+    });
+
+    it("writes the error under err", () => {
+      expect(
+        format.record({ ...record, level: "error", error }),
+      ).toMatchObject({ err: error });
+    });
+  });
+
+  describe("newrelic", () => {
+    const format = LOG_FORMATTERS.newrelic;
+
+    it("writes the level as log.level", () => {
+      expect(format.level("info")).toEqual({ "log.level": "info" });
+    });
+
+    it("writes logs in context fields", () => {
+      expect(format.record(record)).toEqual({
+        timestamp: TIME,
+        message: "Order received",
+        "trace.id": trace.traceId,
+        "span.id": trace.spanId,
+        "entity.name": "tvnz-test-integration-controller",
+        "entity.type": "SERVICE",
+        hostname: os.hostname(),
+        "parent.id": trace.parentSpanId,
+        "span.name": "event",
+        baggage: { tenant: "tvnz" },
+        "trace.links": [
+          {
+            "trace.id": "1-6ad65c18-7b71984fe04205a08d312b1f",
+            relation: "continued_from_xray",
+          },
+        ],
+        "faas.invocation_id": "c6af9ac6-7b61-11e6-9a41-93e812345678",
+        "faas.name": "tvnz-test-integration-controller",
+        "faas.version": "$LATEST",
+        "faas.max_memory": 128,
+        "faas.coldstart": true,
+        module: "orders",
+        orderId: "o-1",
+      });
+    });
+
+    it("writes the error as error.* attributes", () => {
+      expect(
+        format.record({ ...record, level: "error", error }),
+      ).toMatchObject({
+        "error.class": "TypeError",
+        "error.message": "Invalid order",
+        "error.stack": error.stack,
+        "error.code": "INVALID_ORDER",
+      });
+    });
+  });
+
+  describe("ecs", () => {
+    const format = LOG_FORMATTERS.ecs;
+
+    it("writes the level as log.level", () => {
+      expect(format.level("info")).toEqual({ "log.level": "info" });
+    });
+
+    it("writes Elastic Common Schema fields", () => {
+      expect(format.record(record)).toEqual({
+        "@timestamp": "2026-01-02T03:04:05.678Z",
+        message: "Order received",
+        "ecs.version": "8.11.0",
+        "trace.id": trace.traceId,
+        "span.id": trace.spanId,
+        "service.name": "tvnz-test-integration-controller",
+        "host.hostname": os.hostname(),
+        "process.pid": process.pid,
+        "faas.execution": "c6af9ac6-7b61-11e6-9a41-93e812345678",
+        "faas.name": "tvnz-test-integration-controller",
+        "faas.version": "$LATEST",
+        "faas.coldstart": true,
+        labels: { tenant: "tvnz" },
+        module: "orders",
+        orderId: "o-1",
+      });
+    });
+
+    it("writes the error as error.* fields", () => {
+      expect(
+        format.record({ ...record, level: "error", error }),
+      ).toMatchObject({
+        "error.type": "TypeError",
+        "error.message": "Invalid order",
+        "error.stack_trace": error.stack,
+        "error.code": "INVALID_ORDER",
+      });
+    });
+  });
+
+  describe("otel", () => {
+    const format = LOG_FORMATTERS.otel;
+
+    it("writes an OpenTelemetry LogRecord", () => {
+      expect(format.record(record)).toEqual({
+        timeUnixNano: `${TIME}000000`,
+        observedTimeUnixNano: `${OBSERVED_TIME}000000`,
+        body: "Order received",
+        traceId: trace.traceId,
+        spanId: trace.spanId,
+        flags: 1,
+        attributes: {
+          "faas.invocation_id": "c6af9ac6-7b61-11e6-9a41-93e812345678",
+          "faas.coldstart": true,
+          "baggage.tenant": "tvnz",
+          module: "orders",
+          orderId: "o-1",
+        },
+        resource: {
+          "service.name": "tvnz-test-integration-controller",
+          "cloud.provider": "aws",
+          "faas.name": "tvnz-test-integration-controller",
+          "faas.version": "$LATEST",
+          "faas.max_memory": 128 * 1024 * 1024,
+        },
+      });
+    });
+
+    it("maps levels to severity numbers", () => {
+      expect(format.level("info")).toEqual({
+        severityNumber: 9,
+        severityText: "INFO",
+      });
+      const severities = (["trace", "debug", "warn", "fatal"] as const).map(
+        (level) => format.level(level).severityNumber,
+      );
+      expect(severities).toEqual([1, 5, 13, 21]);
+    });
+
+    it("clears the sampled flag of unsampled traces", () => {
+      expect(
+        format.record({ ...record, trace: { ...trace, sampled: false } }),
+      ).toMatchObject({ flags: 0 });
+    });
+
+    it("writes the error as exception.* attributes", () => {
+      expect(
+        format.record({ ...record, level: "error", error }).attributes,
+      ).toMatchObject({
+        "exception.type": "TypeError",
+        "exception.message": "Invalid order",
+        "exception.stacktrace": error.stack,
+        "exception.code": "INVALID_ORDER",
+      });
+    });
+  });
+
+  describe("getLogFormatter", () => {
+    it("falls back to pino for unknown formats", () => {
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      expect(getLogFormatter("toString")).toBe(LOG_FORMATTERS.pino);
+    });
+
+    it("reads LOG_FORMAT by default", () => {
+      process.env.LOG_FORMAT = "ecs";
+      try {
+        expect(getLogFormatter()).toBe(LOG_FORMATTERS.ecs);
+      } finally {
+        delete process.env.LOG_FORMAT;
+      }
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import type { Context, SQSRecord } from "aws-lambda";
+import { z } from "zod";
+import { HttpError, ValidationError } from "../../src/util/http-errors";
+import { runWithMiddlewares } from "../../src/util/middleware-pipeline";
+import {
+  classifyError,
+  poisonQueueMiddleware,
+  SendSqsMessageInput,
+  toPoisonMessage,
+  withRetries,
+} from "../../src/util/sqs-retry";
+import { TimeoutWarning } from "../../src/util/timeout-warning";
+import { TracingContext } from "../../src/util/tracing-utils";
+
+const QUEUE_URL =
+  "https://sqs.ap-southeast-2.amazonaws.com/123456789012/orders-poison";
+const TRACE_ID = "6ad65c187b71984fe04205a08d312b1f";
+
+const record = (
+  messageAttributes: SQSRecord["messageAttributes"] = {},
+): SQSRecord => ({
+  messageId: "059f36b4-87a3-44ab-83d2-661975830a7d",
+  receiptHandle: "AQEBwJnKyrHigUMZj6rYigCgxlaS3SLy0a",
+  body: '{"orderId":"o-1"}',
+  attributes: {
+    ApproximateReceiveCount: "2",
+    SentTimestamp: "1767323045000",
+    SenderId: "AIDAIENQZJOLO23YVJ4VO",
+    ApproximateFirstReceiveTimestamp: "1767323045001",
+  },
+  messageAttributes,
+  md5OfBody: "e4e68fb7bd0e697a0ae8f1bb342846b3",
+  eventSource: "aws:sqs",
+  eventSourceARN: "arn:aws:sqs:ap-southeast-2:123456789012:orders",
+  awsRegion: "ap-southeast-2",
+});
+
+const stringAttribute = (stringValue: string) => ({
+  stringValue,
+  dataType: "String",
+});
+
+const lambdaContext = (remainingMs: number) =>
+  ({ getRemainingTimeInMillis: () => remainingMs }) as Context;
+
+const awsError = (name: string, fields: object = {}): Error =>
+  Object.assign(new Error(name), { name, ...fields });
+
+describe("classifyError", () => {
+  it.each([
+    ["HttpError 429", new HttpError(429, "Too Many Requests", "Slow down")],
+    ["HttpError 503", new HttpError(503, "Service Unavailable", "Down")],
+    ["throttling", awsError("ThrottlingException")],
+    ["$retryable", awsError("ConditionalCheck", { $retryable: {} })],
+    ["AWS 5xx", awsError("Boom", { $metadata: { httpStatusCode: 502 } })],
+    ["network", Object.assign(new Error("reset"), { code: "ECONNRESET" })],
+  ])("retries %s errors", (_, error) => {
+    expect(classifyError(error)).toBe("transient");
+  });
+
+  it.each([
+    ["HttpError 4xx", new HttpError(404, "Not Found", "No order")],
+    ["validation", new ValidationError([])],
+    ["JSON syntax", new SyntaxError("Unexpected token")],
+    ["zod", new z.ZodError([])],
+  ])("does not retry %s errors", (_, error) => {
+    expect(classifyError(error)).toBe("permanent");
+  });
+
+  it.each([
+    ["plain", new Error("Something broke")],
+    [
+      "AWS 4xx",
+      awsError("AccessDenied", { $metadata: { httpStatusCode: 403 } }),
+    ],
+    ["non-object", "failed"],
+  ])("leaves %s errors to SQS", (_, error) => {
+    expect(classifyError(error)).toBe("unknown");
+  });
+});
+
+describe("withRetries", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    TimeoutWarning.configure({ marginMs: 1000 });
+  });
+
+  const retryDelays = () =>
+    warn.mock.calls.map(
+      ([message]) => /retrying in (\d+)ms/.exec(message)?.[1],
+    );
+
+  it("retries transient errors with a capped exponential backoff", async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(awsError("ThrottlingException"))
+      .mockRejectedValueOnce(awsError("ThrottlingException"))
+      .mockRejectedValueOnce(awsError("ThrottlingException"))
+      .mockRejectedValueOnce(awsError("ThrottlingException"))
+      .mockResolvedValue("done");
+
+    await expect(
+      withRetries(fn, { maxAttempts: 5, baseDelayMs: 1, maxDelayMs: 3 }),
+    ).resolves.toBe("done");
+    expect(fn).toHaveBeenCalledTimes(5);
+    expect(retryDelays()).toEqual(["1", "2", "3", "3"]);
+  });
+
+  it("rethrows the last error after maxAttempts", async () => {
+    const error = awsError("ThrottlingException");
+    const fn = jest.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetries(fn, { maxAttempts: 2, baseDelayMs: 1 }),
+    ).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry permanent or unknown errors", async () => {
+    const error = new SyntaxError("Unexpected token");
+    const fn = jest.fn().mockRejectedValue(error);
+
+    await expect(withRetries(fn, { baseDelayMs: 1 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up when the delay would run into the timeout margin", async () => {
+    TimeoutWarning.configure({ marginMs: 1000 });
+    const error = awsError("ThrottlingException");
+    const fn = jest.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetries(fn, { baseDelayMs: 100, context: lambdaContext(1050) }),
+    ).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the classify option", async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Lock held"))
+      .mockResolvedValue("done");
+
+    await expect(
+      withRetries(fn, { baseDelayMs: 1, classify: () => "transient" }),
+    ).resolves.toBe("done");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("toPoisonMessage", () => {
+  it("copies the body with the error and trace attributes", async () => {
+    const message = await TracingContext.withTraceContext(
+      { traceId: TRACE_ID },
+      async () =>
+        toPoisonMessage(
+          record({ tenant: stringAttribute("acme") }),
+          new SyntaxError("Unexpected token"),
+          QUEUE_URL,
+        ),
+    );
+
+    expect(message).toMatchObject({
+      QueueUrl: QUEUE_URL,
+      MessageBody: '{"orderId":"o-1"}',
+      MessageAttributes: {
+        "trace-id": { DataType: "String", StringValue: TRACE_ID },
+        "error-type": { DataType: "String", StringValue: "SyntaxError" },
+        "error-message": { StringValue: "Unexpected token" },
+        "approximate-receive-count": { StringValue: "2" },
+        tenant: { StringValue: "acme" },
+      },
+    });
+    expect(message).not.toHaveProperty("MessageGroupId");
+  });
+
+  it("keeps at most 10 attributes, trace-id and error-type first", async () => {
+    const original = Object.fromEntries(
+      Array.from({ length: 10 }, (_, i) => [
+        `attribute-${i}`,
+        stringAttribute(`value-${i}`),
+      ]),
+    );
+    const { MessageAttributes } = await TracingContext.withTraceContext(
+      { traceId: TRACE_ID },
+      async () =>
+        toPoisonMessage(record(original), new Error("Failed"), QUEUE_URL),
+    );
+
+    expect(Object.keys(MessageAttributes).length).toBeLessThanOrEqual(10);
+    expect(MessageAttributes["trace-id"]?.StringValue).toBe(TRACE_ID);
+    expect(MessageAttributes["error-type"]?.StringValue).toBe("Error");
+  });
+
+  it("keeps the message group on FIFO queues", () => {
+    const fifoRecord = record();
+    fifoRecord.attributes.MessageGroupId = "customer-1";
+
+    expect(
+      toPoisonMessage(fifoRecord, new Error("Failed"), `${QUEUE_URL}.fifo`),
+    ).toMatchObject({
+      MessageGroupId: "customer-1",
+      MessageDeduplicationId: fifoRecord.messageId,
+    });
+  });
+});
+
+describe("poisonQueueMiddleware", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const processRecord = (
+    send: (input: SendSqsMessageInput) => Promise<unknown>,
+    error: unknown,
+    options: { maxReceiveCount?: number } = {},
+  ) =>
+    runWithMiddlewares(
+      [poisonQueueMiddleware({ queueUrl: QUEUE_URL, send, ...options })],
+      record(),
+      undefined,
+      () => Promise.reject(error),
+    );
+
+  it("forwards records that failed with a permanent error", async () => {
+    const send = jest.fn().mockResolvedValue({});
+
+    await expect(
+      processRecord(send, new SyntaxError("Unexpected token")),
+    ).resolves.toBeUndefined();
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        QueueUrl: QUEUE_URL,
+        MessageBody: '{"orderId":"o-1"}',
+      }),
+    );
+  });
+
+  it("lets other errors fail the record", async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const error = awsError("ThrottlingException");
+
+    await expect(processRecord(send, error)).rejects.toBe(error);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("forwards records received maxReceiveCount times", async () => {
+    const send = jest.fn().mockResolvedValue({});
+
+    await expect(
+      processRecord(send, new Error("Something broke"), { maxReceiveCount: 2 }),
+    ).resolves.toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the record when it cannot be forwarded", async () => {
+    const send = jest.fn().mockRejectedValue(awsError("AccessDenied"));
+    const error = new SyntaxError("Unexpected token");
+
+    await expect(processRecord(send, error)).rejects.toBe(error);
+  });
+});
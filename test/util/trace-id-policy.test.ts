@@ -0,0 +1,139 @@
+import { TraceIdPolicy } from "../../src/util/trace-id-policy";
+import {
+  TraceCarriers,
+  TracePropagators,
+} from "../../src/util/trace-propagators";
+
+const DEFAULT_OPTIONS: Parameters<typeof TraceIdPolicy.configure>[0] = {
+  formats: ["hex32", "xray", "uuid", "ulid"],
+  maxLength: 64,
+  action: "reject",
+};
+
+const XRAY_ENV =
+  "Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1";
+const XRAY_TRACE_ID = "5759e988bd862e3fe1be46a994272793";
+const UNTRUSTED_ID = "<script>alert(1)</script>";
+
+const extract = (traceId: string) =>
+  TracePropagators.extract(
+    TraceCarriers.fromHeaders({ "X-Trace-Id": traceId }),
+  );
+
+describe("TraceIdPolicy", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    TraceIdPolicy.configure(DEFAULT_OPTIONS);
+    delete process.env._X_AMZN_TRACE_ID;
+  });
+
+  it.each([
+    ["hex32", "6ad65c187b71984fe04205a08d312b1f"],
+    ["xray", "1-5759e988-bd862e3fe1be46a994272793"],
+    ["uuid", "6a7e8feb-b491-4cf7-a9f1-bf3703467718"],
+    ["ulid", "01ARZ3NDEKTSV4RRFFQ69G5FAV"],
+  ])("accepts %s trace ids", (_, traceId) => {
+    expect(TraceIdPolicy.isValid(traceId)).toBe(true);
+  });
+
+  it("rejects other formats and ids over maxLength", () => {
+    expect(TraceIdPolicy.isValid(UNTRUSTED_ID)).toBe(false);
+    TraceIdPolicy.configure({ formats: ["uuid"] });
+    expect(TraceIdPolicy.isValid("6ad65c187b71984fe04205a08d312b1f")).toBe(
+      false,
+    );
+    TraceIdPolicy.configure({ formats: ["hex32"], maxLength: 16 });
+    expect(TraceIdPolicy.isValid("6ad65c187b71984fe04205a08d312b1f")).toBe(
+      false,
+    );
+  });
+
+  it("sanitizes untrusted values for logs", () => {
+    expect(TraceIdPolicy.sanitize("abc\n\u0000def")).toBe("abc??def");
+    expect(TraceIdPolicy.sanitize("a".repeat(200))).toBe(
+      `${"a".repeat(128)}...`,
+    );
+  });
+
+  it("reject: falls back to the X-Ray trace", () => {
+    process.env._X_AMZN_TRACE_ID = XRAY_ENV;
+
+    const ctx = extract(UNTRUSTED_ID);
+
+    expect(ctx).toMatchObject({
+      traceId: XRAY_TRACE_ID,
+      rejectedTraceId: UNTRUSTED_ID,
+    });
+    expect(ctx.links ?? []).toEqual([]);
+  });
+
+  it("reject: generates a new trace id without X-Ray", () => {
+    const ctx = extract(UNTRUSTED_ID);
+
+    expect(ctx.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ctx.rejectedTraceId).toBe(UNTRUSTED_ID);
+  });
+
+  it("regenerate: starts a new trace linked to the X-Ray one", () => {
+    TraceIdPolicy.configure({ action: "regenerate" });
+    process.env._X_AMZN_TRACE_ID = XRAY_ENV;
+
+    const ctx = extract(UNTRUSTED_ID);
+
+    expect(ctx.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ctx.traceId).not.toBe(XRAY_TRACE_ID);
+    expect(ctx.rejectedTraceId).toBe(UNTRUSTED_ID);
+    expect(ctx.links).toEqual([
+      {
+        traceId: XRAY_TRACE_ID,
+        spanId: "53995c3f42cd8ad8",
+        relation: "continued_from_xray",
+      },
+    ]);
+  });
+
+  it("link: starts a new trace keeping the sanitized rejected id", () => {
+    TraceIdPolicy.configure({ action: "link" });
+    const traceId = "bad id\nwith newline";
+
+    const ctx = extract(traceId);
+
+    expect(ctx.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ctx.links).toEqual([
+      {
+        traceId: "bad?id?with?newline",
+        spanId: undefined,
+        relation: "untrusted_client_id",
+      },
+    ]);
+  });
+
+  it("links a valid inbound trace to the X-Ray trace it continues", () => {
+    process.env._X_AMZN_TRACE_ID = XRAY_ENV;
+
+    const ctx = extract("6ad65c187b71984fe04205a08d312b1f");
+
+    expect(ctx.traceId).toBe("6ad65c187b71984fe04205a08d312b1f");
+    expect(ctx.rejectedTraceId).toBeUndefined();
+    expect(ctx.links).toEqual([
+      expect.objectContaining({
+        traceId: XRAY_TRACE_ID,
+        relation: "continued_from_xray",
+      }),
+    ]);
+  });
+
+  it("does not link the X-Ray trace to itself", () => {
+    process.env._X_AMZN_TRACE_ID = XRAY_ENV;
+
+    const ctx = extract(XRAY_TRACE_ID);
+
+    expect(ctx.traceId).toBe(XRAY_TRACE_ID);
+    expect(ctx.links ?? []).toEqual([]);
+  });
+});
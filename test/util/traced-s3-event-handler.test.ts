@@ -0,0 +1,119 @@
+import {
+  S3EventBridgeDetail,
+  S3EventBridgeEvent,
+  toS3NotificationRecord,
+  tracedS3EventHandler,
+} from "../../src/util/traced-s3-event-handler";
+
+const eventBridgeEvent = (
+  detailType: string,
+  detail: Partial<S3EventBridgeDetail> = {},
+): S3EventBridgeEvent => ({
+  id: "17793124-05d4-b198-2fde-7ededc63b103",
+  version: "0",
+  account: "123456789012",
+  time: "2026-01-02T03:04:05Z",
+  region: "ap-southeast-2",
+  source: "aws.s3",
+  "detail-type": detailType,
+  resources: ["arn:aws:s3:::orders-bucket"],
+  detail: {
+    version: "0",
+    bucket: { name: "orders-bucket" },
+    object: { key: "orders/o-1.json", sequencer: "00617F08299329D189" },
+    "request-id": "N4N7GDK58NMKJ12R",
+    ...detail,
+  },
+});
+
+describe("toS3NotificationRecord", () => {
+  it.each([
+    ["ObjectCreated:Put", {}],
+    ["ObjectCreated:Copy", { reason: "CopyObject" }],
+    [
+      "ObjectCreated:CompleteMultipartUpload",
+      { reason: "CompleteMultipartUpload" },
+    ],
+  ])("names Object Created events %s", (name, detail) => {
+    expect(
+      toS3NotificationRecord(eventBridgeEvent("Object Created", detail)),
+    ).toMatchObject({ eventName: name });
+  });
+
+  it.each([
+    [
+      "ObjectRemoved:Delete",
+      { reason: "DeleteObject", "deletion-type": "Permanently Deleted" },
+    ],
+    [
+      "ObjectRemoved:DeleteMarkerCreated",
+      { reason: "DeleteObject", "deletion-type": "Delete Marker Created" },
+    ],
+    [
+      "LifecycleExpiration:Delete",
+      {
+        reason: "Lifecycle Expiration",
+        "deletion-type": "Permanently Deleted",
+      },
+    ],
+  ])("names Object Deleted events %s", (name, detail) => {
+    const record = toS3NotificationRecord(
+      eventBridgeEvent("Object Deleted", detail),
+    );
+    expect(record).toMatchObject({
+      eventName: name,
+      s3: {
+        bucket: { name: "orders-bucket" },
+        object: { key: "orders/o-1.json" },
+      },
+    });
+    expect(record).not.toHaveProperty("replicationEventData");
+  });
+
+  it("keeps the replication details", () => {
+    expect(
+      toS3NotificationRecord(
+        eventBridgeEvent("Object Replication Operation Failed", {
+          "replication-rule-id": "replicate-orders",
+          "failure-reason": "AssumeRoleNotPermitted",
+        }),
+      ),
+    ).toMatchObject({
+      eventName: "Replication:OperationFailedReplication",
+      replicationEventData: {
+        replicationRuleId: "replicate-orders",
+        failureReason: "AssumeRoleNotPermitted",
+      },
+    });
+  });
+
+  it("maps the other S3 detail-types", () => {
+    expect(
+      toS3NotificationRecord(eventBridgeEvent("Object Restore Completed")),
+    ).toMatchObject({ eventName: "ObjectRestore:Completed" });
+  });
+
+  it("rejects unknown detail-types", () => {
+    expect(() =>
+      toS3NotificationRecord(eventBridgeEvent("Object Teleported")),
+    ).toThrow("Unsupported S3 EventBridge event: Object Teleported");
+  });
+});
+
+describe("tracedS3EventHandler", () => {
+  it("hands EventBridge delete events to the handler as removals", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    await tracedS3EventHandler(handler)(
+      eventBridgeEvent("Object Deleted", {
+        reason: "DeleteObject",
+        "deletion-type": "Permanently Deleted",
+      }),
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      eventName: "ObjectRemoved:Delete",
+    });
+  });
+});
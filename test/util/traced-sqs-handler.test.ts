@@ -0,0 +1,179 @@
+import type {
+  Context,
+  SQSBatchResponse,
+  SQSEvent,
+  SQSRecord,
+} from "aws-lambda";
+import { TimeoutWarning } from "../../src/util/timeout-warning";
+import { tracedSqsHandler } from "../../src/util/traced-sqs-handler";
+
+const QUEUE_ARN = "arn:aws:sqs:ap-southeast-2:123456789012:orders";
+
+const record = (messageId: string, messageGroupId?: string): SQSRecord => ({
+  messageId,
+  receiptHandle: `receipt-${messageId}`,
+  body: JSON.stringify({ orderId: messageId }),
+  attributes: {
+    ApproximateReceiveCount: "1",
+    SentTimestamp: "1767323045000",
+    SenderId: "AIDAIENQZJOLO23YVJ4VO",
+    ApproximateFirstReceiveTimestamp: "1767323045001",
+    ...(messageGroupId ? { MessageGroupId: messageGroupId } : {}),
+  },
+  messageAttributes: {},
+  md5OfBody: "",
+  eventSource: "aws:sqs",
+  eventSourceARN: QUEUE_ARN,
+  awsRegion: "ap-southeast-2",
+});
+
+const batch = (...records: SQSRecord[]): SQSEvent => ({ Records: records });
+
+const lambdaContext = (remainingMs: number): Context =>
+  ({
+    awsRequestId: "c6af9ac6-7b61-11e6-9a41-93e812345678",
+    functionName: "orders-consumer",
+    invokedFunctionArn:
+      "arn:aws:lambda:ap-southeast-2:123456789012:function:orders-consumer",
+    getRemainingTimeInMillis: () => remainingMs,
+  }) as Context;
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const failedIds = ({ batchItemFailures }: SQSBatchResponse): string[] =>
+  batchItemFailures.map(({ itemIdentifier }) => itemIdentifier);
+
+describe("tracedSqsHandler", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    TimeoutWarning.configure({ marginMs: 1000 });
+  });
+
+  it("reports the failed records of a batch", async () => {
+    const handler = tracedSqsHandler(async (message) => {
+      if (message.messageId === "m-2") {
+        throw new Error("Invalid order");
+      }
+    });
+
+    const response = await handler(
+      batch(record("m-1"), record("m-2"), record("m-3")),
+    );
+
+    expect(failedIds(response)).toEqual(["m-2"]);
+  });
+
+  it("blocks the rest of a FIFO message group after a failure", async () => {
+    const processed: string[] = [];
+    const handler = tracedSqsHandler(
+      async (message) => {
+        processed.push(message.messageId);
+        if (message.messageId === "a-1") {
+          throw new Error("Invalid order");
+        }
+      },
+      { fifo: true },
+    );
+
+    const response = await handler(
+      batch(
+        record("a-1", "customer-a"),
+        record("b-1", "customer-b"),
+        record("a-2", "customer-a"),
+        record("b-2", "customer-b"),
+        record("a-3", "customer-a"),
+      ),
+    );
+
+    expect(processed).toEqual(["a-1", "b-1", "b-2"]);
+    expect(failedIds(response)).toEqual(["a-1", "a-2", "a-3"]);
+  });
+
+  it("starts records in batch order, `concurrency` at a time", async () => {
+    const started: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const durations: Record<string, number> = {
+      "m-1": 30,
+      "m-2": 5,
+      "m-3": 5,
+      "m-4": 5,
+    };
+    const handler = tracedSqsHandler(
+      async (message) => {
+        started.push(message.messageId);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(durations[message.messageId]);
+        inFlight--;
+      },
+      { concurrency: 2 },
+    );
+
+    const response = await handler(
+      batch(record("m-1"), record("m-2"), record("m-3"), record("m-4")),
+    );
+
+    expect(started).toEqual(["m-1", "m-2", "m-3", "m-4"]);
+    expect(maxInFlight).toBe(2);
+    expect(failedIds(response)).toEqual([]);
+  });
+
+  it("keeps FIFO groups in order while groups run concurrently", async () => {
+    const events: string[] = [];
+    const handler = tracedSqsHandler(
+      async (message) => {
+        events.push(`start ${message.messageId}`);
+        await sleep(message.messageId.startsWith("a") ? 20 : 5);
+        events.push(`end ${message.messageId}`);
+      },
+      { fifo: true, concurrency: 2 },
+    );
+
+    await handler(
+      batch(
+        record("a-1", "customer-a"),
+        record("b-1", "customer-b"),
+        record("a-2", "customer-a"),
+        record("b-2", "customer-b"),
+      ),
+    );
+
+    // both groups start at once, a record starts once the previous one ended
+    expect(events.slice(0, 2)).toEqual(["start a-1", "start b-1"]);
+    expect(events.indexOf("start a-2")).toBeGreaterThan(
+      events.indexOf("end a-1"),
+    );
+    expect(events.indexOf("start b-2")).toBeGreaterThan(
+      events.indexOf("end b-1"),
+    );
+    expect(events.indexOf("end b-2")).toBeLessThan(events.indexOf("end a-2"));
+  });
+
+  it("reports unprocessed records when the timeout approaches", async () => {
+    TimeoutWarning.configure({ marginMs: 1000 });
+    const processed: string[] = [];
+    const handler = tracedSqsHandler(async (message) => {
+      await sleep(message.messageId === "m-1" ? 0 : 200);
+      processed.push(message.messageId);
+    });
+
+    // the deadline is 50ms away: m-1 completes, m-2 is still running
+    const response = await handler(
+      batch(record("m-1"), record("m-2"), record("m-3")),
+      lambdaContext(1050),
+    );
+
+    expect(processed).toEqual(["m-1"]);
+    expect(failedIds(response)).toEqual(["m-2", "m-3"]);
+    await sleep(200);
+    // m-3 was never started
+    expect(processed).toEqual(["m-1", "m-2"]);
+  });
+});